@@ -0,0 +1,131 @@
+import { getProvider } from './provider.js';
+import {
+  loadConfig,
+  loadIssue,
+  loadSyncState,
+  saveSyncState,
+  isLocallyModified,
+  archiveIssue,
+  removeBase,
+} from './storage.js';
+import type { DeletePolicy, SyncState } from './types.js';
+
+const DELETE_POLICIES: DeletePolicy[] = ['ignore', 'close', 'untrack'];
+
+export async function getDeletePolicy(): Promise<DeletePolicy> {
+  const policy = (await loadConfig()).delete_policy ?? 'ignore';
+  if (!DELETE_POLICIES.includes(policy)) {
+    throw new Error(`unknown delete_policy "${policy}" (expected ${DELETE_POLICIES.join(', ')})`);
+  }
+  return policy;
+}
+
+// tracked issues whose local file is gone, deleted or moved to archive/ by hand
+export async function removedLocally(state: SyncState): Promise<number[]> {
+  const removed: number[] = [];
+  for (const number of Object.keys(state.issues).map(Number)) {
+    if (!await loadIssue(number)) {
+      removed.push(number);
+    }
+  }
+  return removed;
+}
+
+function untrack(state: SyncState, number: number): void {
+  delete state.issues[number];
+  state.untracked = [...new Set([...(state.untracked || []), number])].sort((a, b) => a - b);
+}
+
+// applies delete_policy to issues removed locally: `close` closes them as not
+// planned, and both `close` and `untrack` stop tracking them. with `ignore` the
+// next `down` brings the files back. returns how many were handled
+export async function pushDeletions(repo: string, state: SyncState, dryRun: boolean): Promise<number> {
+  const policy = await getDeletePolicy();
+  const removed = await removedLocally(state);
+  if (removed.length === 0) {
+    return 0;
+  }
+
+  if (policy === 'ignore') {
+    console.log(`${removed.length} tracked issue(s) deleted locally, \`issync down\` will restore them (see delete_policy)`);
+    return 0;
+  }
+
+  const provider = await getProvider();
+  let handled = 0;
+
+  for (const number of removed) {
+    if (policy === 'close') {
+      const remote = await provider.fetchIssue(repo, number);
+
+      if (remote?.state === 'open') {
+        if (dryRun) {
+          console.log(`would close issue #${number} as not planned (deleted locally)`);
+        } else {
+          await provider.updateIssue(repo, number, { state: 'closed', state_reason: 'not_planned' });
+          console.log(`closed issue #${number} as not planned (deleted locally)`);
+        }
+      }
+    }
+
+    if (dryRun) {
+      console.log(`would stop tracking issue #${number} (deleted locally)`);
+    } else {
+      untrack(state, number);
+      await removeBase(number);
+      await saveSyncState(state);
+      console.log(`stopped tracking issue #${number}`);
+    }
+    handled++;
+  }
+
+  return handled;
+}
+
+// moves closed issues out of issues/ into archive/ along with their comments.
+// archived issues aren't fetched again unless they're reopened
+export async function archiveClosedIssues(number?: number, dryRun: boolean = false): Promise<void> {
+  const state = await loadSyncState();
+  const numbers = number !== undefined ? [number] : Object.keys(state.issues).map(Number);
+  let archived = 0;
+
+  for (const n of numbers) {
+    const syncInfo = state.issues[n];
+    const local = await loadIssue(n);
+
+    if (!syncInfo || !local) {
+      if (number !== undefined) {
+        throw new Error(`issue #${n} is not tracked locally`);
+      }
+      continue;
+    }
+
+    if (local.state !== 'closed') {
+      if (number !== undefined) {
+        console.log(`issue #${n} is open, only closed issues can be archived`);
+      }
+      continue;
+    }
+
+    if (await isLocallyModified(local, syncInfo)) {
+      console.log(`issue #${n} has local changes, run \`issync up\` before archiving it (skipping)`);
+      continue;
+    }
+
+    if (dryRun) {
+      console.log(`would archive issue #${n}: ${local.title}`);
+    } else {
+      const path = await archiveIssue(n, { reason: 'closed' });
+      delete state.issues[n];
+      state.archived = { ...state.archived, [n]: new Date().toISOString() };
+      console.log(`archived issue #${n} to ${path}`);
+    }
+    archived++;
+  }
+
+  if (!dryRun) {
+    await saveSyncState(state);
+  }
+
+  console.log(dryRun ? `${archived} issue(s) would be archived` : `${archived} issue(s) archived`);
+}
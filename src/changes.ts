@@ -0,0 +1,153 @@
+import { getProvider } from './provider.js';
+import {
+  loadIssue,
+  loadAllLocalIssues,
+  loadBase,
+  loadSyncState,
+  isLocallyModified,
+} from './storage.js';
+import { unifiedDiff } from './diff.js';
+import { sameValue, GITLAB_FIELDS } from './merge.js';
+import { fetchRemoteIssue } from './sync.js';
+import type { Issue } from './types.js';
+
+const useColour = process.stdout.isTTY && !process.env.NO_COLOR;
+
+function colour(code: number, text: string): string {
+  return useColour ? `\x1b[${code}m${text}\x1b[0m` : text;
+}
+
+const red = (text: string) => colour(31, text);
+const green = (text: string) => colour(32, text);
+const cyan = (text: string) => colour(36, text);
+const bold = (text: string) => colour(1, text);
+
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined || value === '') return '(none)';
+  return typeof value === 'string' ? JSON.stringify(value) : String(value);
+}
+
+// lines describing how `to` differs from `from`
+export function describeChanges(from: Issue, to: Issue): string[] {
+  const lines: string[] = [];
+
+  for (const field of ['title', 'state', 'milestone'] as const) {
+    if (!sameValue(from[field], to[field])) {
+      lines.push(`${field}: ${red(formatValue(from[field]))} -> ${green(formatValue(to[field]))}`);
+    }
+  }
+
+  for (const field of ['labels', 'assignees'] as const) {
+    const added = to[field].filter(v => !from[field].includes(v));
+    const removed = from[field].filter(v => !to[field].includes(v));
+    if (added.length > 0 || removed.length > 0) {
+      const changes = [...added.map(v => green(`+${v}`)), ...removed.map(v => red(`-${v}`))];
+      lines.push(`${field}: ${changes.join(' ')}`);
+    }
+  }
+
+  const fieldNames = new Set([
+    ...Object.keys(from.project_fields || {}),
+    ...Object.keys(to.project_fields || {}),
+  ]);
+  for (const name of [...fieldNames].sort()) {
+    const before = from.project_fields?.[name] ?? null;
+    const after = to.project_fields?.[name] ?? null;
+    if (!sameValue(before, after)) {
+      lines.push(`project_fields.${name}: ${red(formatValue(before))} -> ${green(formatValue(after))}`);
+    }
+  }
+
+  for (const name of GITLAB_FIELDS) {
+    const before = from.gitlab?.[name] ?? null;
+    const after = to.gitlab?.[name] ?? null;
+    if (!sameValue(before, after)) {
+      lines.push(`gitlab.${name}: ${red(formatValue(before))} -> ${green(formatValue(after))}`);
+    }
+  }
+
+  return lines;
+}
+
+function printIssueDiff(from: Issue, to: Issue, fromLabel: string): boolean {
+  const fieldLines = describeChanges(from, to);
+  const bodyLines = unifiedDiff(from.body, to.body);
+
+  if (fieldLines.length === 0 && bodyLines.length === 0) {
+    return false;
+  }
+
+  console.log(bold(`issue #${to.number}: ${to.title}`));
+  for (const line of fieldLines) {
+    console.log(`  ${line}`);
+  }
+
+  if (bodyLines.length > 0) {
+    console.log(bold(`--- ${fromLabel}/#${to.number}`));
+    console.log(bold(`+++ local/#${to.number}`));
+    for (const line of bodyLines) {
+      if (line.startsWith('@@')) console.log(cyan(line));
+      else if (line.startsWith('+')) console.log(green(line));
+      else if (line.startsWith('-')) console.log(red(line));
+      else console.log(line);
+    }
+  }
+
+  console.log('');
+  return true;
+}
+
+export async function diffIssues(number?: number, againstBase: boolean = false): Promise<void> {
+  const state = await loadSyncState();
+
+  let locals: Issue[];
+  if (number !== undefined) {
+    const local = await loadIssue(number);
+    if (!local) {
+      throw new Error(`issue #${number} not found locally`);
+    }
+    locals = [local];
+  } else {
+    locals = [];
+    for (const local of await loadAllLocalIssues()) {
+      const syncInfo = state.issues[local.number];
+      if (syncInfo && await isLocallyModified(local, syncInfo)) {
+        locals.push(local);
+      }
+    }
+  }
+
+  const repo = againstBase ? null : await (await getProvider()).getCurrentRepo();
+  let shown = 0;
+
+  for (const local of locals) {
+    const base = await loadBase(local.number);
+    let from: Issue | null;
+
+    if (againstBase) {
+      from = base;
+      if (!from) {
+        console.log(`issue #${local.number} has no base snapshot (skipping)`);
+        continue;
+      }
+    } else {
+      from = await fetchRemoteIssue(repo!, local.number, state.issues[local.number]?.project_item_id);
+      if (!from) {
+        console.log(`issue #${local.number} not found on github (skipping)`);
+        continue;
+      }
+      // project fields weren't fetched, compare against the last synced values
+      if (!from.project_fields) {
+        from.project_fields = base?.project_fields ?? local.project_fields;
+      }
+    }
+
+    if (printIssueDiff(from, local, againstBase ? 'base' : 'remote')) {
+      shown++;
+    }
+  }
+
+  if (shown === 0) {
+    console.log('no differences');
+  }
+}
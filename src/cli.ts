@@ -1,14 +1,58 @@
 #!/usr/bin/env node
 
 import { Command } from 'commander';
-import { syncDown, syncUp, detectConflicts } from './sync.js';
+import { syncDown, syncUp, detectConflicts, createDraft } from './sync.js';
+import { resolveConflicts } from './resolve.js';
+import { getStatus } from './status.js';
+import { diffIssues } from './changes.js';
+import { archiveClosedIssues } from './archive.js';
+import { listIssues, type ListFormat } from './query.js';
+import { printSearchResults } from './search.js';
+import { editIssues } from './edit.js';
+import { exportIssues, importIssues } from './export.js';
+import { watch } from './watch.js';
+import { serveWebhooks, replayWebhooks } from './webhooks.js';
+import {
+  forEachRepo,
+  withSingleRepo,
+  parseIssueRef,
+  addWorkspaceRepo,
+  removeWorkspaceRepo,
+  listWorkspaceRepos,
+} from './workspace.js';
+import type { StatusEntry } from './types.js';
+
+function formatEntry(entry: StatusEntry): string {
+  const fields = entry.fields && entry.fields.length > 0 ? ` (${entry.fields.join(', ')})` : '';
+  return `#${entry.number} ${entry.title}${fields}`;
+}
 
 const program = new Command();
 
 program
   .name('issync')
   .description('bidirectional github issue syncing')
-  .version('0.2.1');
+  .version('0.2.1')
+  .option(
+    '-r, --repo <repo>',
+    'only run against this workspace repo (repeatable, or comma separated)',
+    (value: string, previous: string[] = []) => [...previous, ...value.split(',').filter(Boolean)]
+  );
+
+function repoFilter(): string[] | undefined {
+  return program.opts().repo;
+}
+
+// runs against a single issue's repo when given a qualified reference like owner/repo#12
+async function forIssueRef(ref: string | undefined, fn: (number?: number) => Promise<void>): Promise<void> {
+  if (ref === undefined) {
+    await forEachRepo(repoFilter(), () => fn());
+    return;
+  }
+
+  const { repo, number } = parseIssueRef(ref);
+  await withSingleRepo(repo ? [repo] : repoFilter(), () => fn(number));
+}
 
 program
   .command('down')
@@ -16,9 +60,12 @@ program
   .option('--closed', 'include closed issues')
   .option('--full', 'force full sync (skip incremental)')
   .option('--projects', 'sync github projects v2 custom fields')
+  .option('--comments', 'sync issue comments')
   .action(async (options) => {
     try {
-      await syncDown(options.closed, options.full, options.projects);
+      await forEachRepo(repoFilter(), async () => {
+        await syncDown(options.closed, options.full, options.projects, options.comments);
+      });
     } catch (error) {
       console.error(`error: ${error}`);
       process.exit(1);
@@ -31,9 +78,13 @@ program
   .option('--force', 'force update even if conflicts detected')
   .option('--dry-run', 'show what would be updated without making changes')
   .option('--projects', 'sync github projects v2 custom fields')
+  .option('--strict-labels', 'refuse to push issues using labels missing from labels.yml')
+  .option('--comments', 'sync issue comments')
   .action(async (options) => {
     try {
-      await syncUp(options.force, options.dryRun, options.projects);
+      await forEachRepo(repoFilter(), async () => {
+        await syncUp(options.force, options.dryRun, options.projects, options.strictLabels, options.comments);
+      });
     } catch (error) {
       console.error(`error: ${error}`);
       process.exit(1);
@@ -48,11 +99,41 @@ program
   .option('--dry-run', 'show what would be updated without making changes')
   .option('--full', 'force full sync (skip incremental)')
   .option('--projects', 'sync github projects v2 custom fields')
+  .option('--strict-labels', 'refuse to push issues using labels missing from labels.yml')
+  .option('--comments', 'sync issue comments')
   .action(async (options) => {
     try {
-      await syncDown(options.closed, options.full, options.projects);
-      console.log('');
-      await syncUp(options.force, options.dryRun, options.projects);
+      await forEachRepo(repoFilter(), async () => {
+        await syncDown(options.closed, options.full, options.projects, options.comments);
+        console.log('');
+        await syncUp(options.force, options.dryRun, options.projects, options.strictLabels, options.comments);
+      });
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('new')
+  .description('create a local draft issue (created on github by the next up)')
+  .argument('<title>', 'issue title')
+  .option('-b, --body <text>', 'issue body')
+  .option('-l, --label <name...>', 'labels to add')
+  .option('-a, --assignee <login...>', 'users to assign')
+  .option('-m, --milestone <title>', 'milestone title')
+  .option('-f, --field <name=value...>', 'project field values')
+  .action(async (title, options) => {
+    try {
+      await withSingleRepo(repoFilter(), async () => {
+        await createDraft(title, {
+          body: options.body,
+          labels: options.label,
+          assignees: options.assignee,
+          milestone: options.milestone,
+          fields: options.field,
+        });
+      });
     } catch (error) {
       console.error(`error: ${error}`);
       process.exit(1);
@@ -64,20 +145,354 @@ program
   .description('detect conflicts between local and remote')
   .action(async () => {
     try {
-      const conflicts = await detectConflicts();
+      await forEachRepo(repoFilter(), async () => {
+        const conflicts = await detectConflicts();
+
+        if (conflicts.length === 0) {
+          console.log('no conflicts detected');
+          return;
+        }
+
+        console.log(`found ${conflicts.length} conflict(s):\n`);
+        for (const c of conflicts) {
+          console.log(`issue #${c.number}: ${c.title}`);
+          console.log(`  github updated: ${c.github_updated}`);
+          console.log(`  local updated:  ${c.local_updated}`);
+          console.log(`  last synced:    ${c.last_synced}`);
+          if (c.fields) {
+            console.log(`  fields:         ${c.fields.join(', ')}`);
+          }
+          console.log('');
+        }
+      });
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('status')
+  .description('show local changes waiting to be synced (offline)')
+  .option('--remote', 'also check github for remote changes and conflicts')
+  .action(async (options) => {
+    try {
+      await forEachRepo(repoFilter(), async () => {
+        const status = await getStatus(options.remote);
+        let clean = true;
+
+        const local = [
+          ...status.modified.map(e => `  modified:   ${formatEntry(e)}`),
+          ...status.deleted.map(n => `  deleted:    #${n}`),
+          ...status.untracked.map(e => `  untracked:  ${formatEntry(e)}`),
+          ...status.drafts.map(d => `  new draft:  ${d.id} (${d.title || 'untitled'})`),
+        ];
+        if (local.length > 0) {
+          clean = false;
+          console.log('local changes:');
+          console.log(local.join('\n'));
+        }
+
+        if (status.remote) {
+          const remote = [
+            ...status.remote.conflicts.map(e => `  conflict:   ${formatEntry(e)}`),
+            ...status.remote.updated.map(e => `  updated:    ${formatEntry(e)}`),
+            ...status.remote.added.map(e => `  new:        ${formatEntry(e)}`),
+          ];
+          if (remote.length > 0) {
+            clean = false;
+            const since = status.remote.since ? ` since ${status.remote.since.split('T')[0]}` : '';
+            if (local.length > 0) console.log('');
+            console.log(`remote changes${since}:`);
+            console.log(remote.join('\n'));
+          }
+        }
+
+        if (clean) {
+          console.log(status.remote ? 'everything up to date' : 'no local changes');
+        }
+      });
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('diff')
+  .description('show differences between local issues and github')
+  .argument('[issue]', 'issue number or owner/repo#number (defaults to every locally modified issue)')
+  .option('--base', 'compare with the last synced version instead of github (offline)')
+  .action(async (issue, options) => {
+    try {
+      await forIssueRef(issue, number => diffIssues(number, options.base));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('resolve')
+  .description('interactively resolve conflicts field by field')
+  .argument('[issue]', 'issue number or owner/repo#number (defaults to every conflicting issue)')
+  .action(async (issue) => {
+    try {
+      await forIssueRef(issue, number => resolveConflicts(number));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('list')
+  .description('list local issues matching filters (offline)')
+  .option('-s, --state <state>', 'open, closed or all', 'open')
+  .option('-l, --label <name...>', 'only issues with all of these labels')
+  .option('-a, --assignee <login...>', 'only issues assigned to all of these users (@me for yourself)')
+  .option('-m, --milestone <title>', 'only issues in this milestone ("none" for no milestone)')
+  .option('-w, --where <field=value...>', 'match any field, including project fields (field!=value to exclude)')
+  .option('--created-after <date>', 'created on or after this date')
+  .option('--created-before <date>', 'created before this date')
+  .option('--updated-after <date>', 'updated on or after this date')
+  .option('--updated-before <date>', 'updated before this date')
+  .option('--closed-after <date>', 'closed on or after this date')
+  .option('--closed-before <date>', 'closed before this date')
+  .option('--sort <field>', 'sort by any field', 'number')
+  .option('--reverse', 'reverse the sort order')
+  .option('--limit <n>', 'show at most n issues', (value: string) => parseInt(value, 10))
+  .option('--format <format>', 'table, json, csv or numbers', 'table')
+  .option('--columns <fields>', 'comma separated fields for table and csv output')
+  .action(async (options) => {
+    try {
+      const format = options.format as ListFormat;
+      const columns = options.columns?.split(',').map((c: string) => c.trim()).filter(Boolean);
+      const run = () => listIssues({
+        state: options.state,
+        labels: options.label,
+        assignees: options.assignee,
+        milestone: options.milestone,
+        where: options.where,
+        createdAfter: options.createdAfter,
+        createdBefore: options.createdBefore,
+        updatedAfter: options.updatedAfter,
+        updatedBefore: options.updatedBefore,
+        closedAfter: options.closedAfter,
+        closedBefore: options.closedBefore,
+        sort: options.sort,
+        reverse: options.reverse,
+        limit: options.limit,
+      }, format, columns);
+
+      // machine readable output can't be split up by repo headers
+      if (format === 'table') {
+        await forEachRepo(repoFilter(), run);
+      } else {
+        await withSingleRepo(repoFilter(), run);
+      }
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('search')
+  .description('full-text search over local issues and comments (offline)')
+  .argument('<query>', 'words, "exact phrases" and qualifiers like label:bug is:open assignee:@me in:title')
+  .option('--limit <n>', 'show at most n results', (value: string) => parseInt(value, 10), 20)
+  .option('--format <format>', 'text, json or numbers', 'text')
+  .action(async (query, options) => {
+    try {
+      const run = () => printSearchResults(query, options.limit, options.format);
+
+      // machine readable output can't be split up by repo headers
+      if (options.format === 'text') {
+        await forEachRepo(repoFilter(), run);
+      } else {
+        await withSingleRepo(repoFilter(), run);
+      }
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('edit')
+  .description('change labels, assignees, milestone, state or project fields of many local issues at once')
+  .argument('[issues...]', 'issue numbers')
+  .option('-q, --query <query>', 'also edit every issue matching this search (see `issync search`)')
+  .option('--add-label <name...>', 'labels to add')
+  .option('--remove-label <name...>', 'labels to remove')
+  .option('--add-assignee <login...>', 'users to assign')
+  .option('--remove-assignee <login...>', 'users to unassign')
+  .option('--milestone <title>', 'set the milestone ("none" to clear it)')
+  .option('--state <state>', 'set the state (open or closed)')
+  .option('-f, --field <name=value...>', 'set project field values (name= to clear)')
+  .option('-y, --yes', 'apply without asking')
+  .option('--dry-run', 'only show what would change')
+  .action(async (issues: string[], options) => {
+    try {
+      const numbers = issues.map(ref => {
+        const number = parseInt(ref.replace(/^#/, ''), 10);
+        if (Number.isNaN(number)) {
+          throw new Error(`invalid issue number "${ref}"`);
+        }
+        return number;
+      });
 
-      if (conflicts.length === 0) {
-        console.log('no conflicts detected');
+      await withSingleRepo(repoFilter(), () => editIssues(numbers, options.query, {
+        addLabels: options.addLabel,
+        removeLabels: options.removeLabel,
+        addAssignees: options.addAssignee,
+        removeAssignees: options.removeAssignee,
+        milestone: options.milestone,
+        state: options.state,
+        fields: options.field,
+      }, options.yes, options.dryRun));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('export')
+  .description('write every local issue as csv, json or jsonl rows (offline)')
+  .option('--format <format>', 'csv, json or jsonl', 'csv')
+  .option('-o, --output <file>', 'write to a file instead of stdout')
+  .action(async (options) => {
+    try {
+      await withSingleRepo(repoFilter(), () => exportIssues(options.format, options.output));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('import')
+  .description('apply edited export rows to the local issue files (offline)')
+  .argument('<file>', 'csv, json or jsonl file from `issync export`')
+  .option('--format <format>', 'csv, json or jsonl (defaults to the file extension)')
+  .option('--dry-run', 'only show what would change')
+  .action(async (file, options) => {
+    try {
+      await withSingleRepo(repoFilter(), () => importIssues(file, options.format, options.dryRun));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('watch')
+  .description('keep the local issues in sync: poll for remote changes and push local saves')
+  .option('--interval <seconds>', 'seconds between polls', (value: string) => parseInt(value, 10), 60)
+  .option('--debounce <ms>', 'wait this long after the last save before pushing', (value: string) => parseInt(value, 10), 2000)
+  .option('--projects', 'sync github projects v2 custom fields')
+  .option('--comments', 'sync issue comments')
+  .action(async (options) => {
+    try {
+      if (!(options.interval > 0) || !(options.debounce >= 0)) {
+        throw new Error('--interval and --debounce must be positive numbers');
+      }
+
+      await withSingleRepo(repoFilter(), () => watch({
+        interval: options.interval,
+        debounce: options.debounce,
+        projects: !!options.projects,
+        comments: !!options.comments,
+      }));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('serve-webhooks')
+  .description('apply github webhook deliveries to the local issues as they arrive')
+  .option('--port <port>', 'port to listen on', (value: string) => parseInt(value, 10), 8787)
+  .option('--host <host>', 'address to listen on', '127.0.0.1')
+  .option('--secret <secret>', 'webhook secret (defaults to ISSYNC_WEBHOOK_SECRET)')
+  .option('--replay <path>', 'apply stored deliveries from a json file or directory instead of listening')
+  .action(async (options) => {
+    try {
+      if (options.replay) {
+        await withSingleRepo(repoFilter(), () => replayWebhooks(options.replay));
         return;
       }
 
-      console.log(`found ${conflicts.length} conflict(s):\n`);
-      for (const c of conflicts) {
-        console.log(`issue #${c.number}: ${c.title}`);
-        console.log(`  github updated: ${c.github_updated}`);
-        console.log(`  local updated:  ${c.local_updated}`);
-        console.log(`  last synced:    ${c.last_synced}\n`);
+      const secret = options.secret || process.env.ISSYNC_WEBHOOK_SECRET;
+      if (!secret) {
+        throw new Error('a webhook secret is required, pass --secret or set ISSYNC_WEBHOOK_SECRET');
+      }
+      if (!(options.port >= 0 && options.port < 65536)) {
+        throw new Error('--port must be between 0 and 65535');
       }
+
+      await withSingleRepo(repoFilter(), () => serveWebhooks({ port: options.port, host: options.host, secret }));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+program
+  .command('archive')
+  .description('move closed issues to .issync/archive (they come back if reopened)')
+  .argument('[issue]', 'issue number or owner/repo#number (defaults to every closed issue)')
+  .option('--dry-run', 'show what would be archived without moving anything')
+  .action(async (issue, options) => {
+    try {
+      await forIssueRef(issue, number => archiveClosedIssues(number, options.dryRun));
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+const workspace = program
+  .command('workspace')
+  .description('manage the repos tracked from this folder');
+
+workspace
+  .command('add')
+  .description('add a repo to the workspace')
+  .argument('<repo>', 'owner/name')
+  .option('--dir <path>', 'where to keep its issues (default .issync/repos/<owner>/<name>)')
+  .option('--host <host>', 'github enterprise host (default github.com)')
+  .action(async (repo, options) => {
+    try {
+      await addWorkspaceRepo(repo, options.dir, options.host);
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+workspace
+  .command('remove')
+  .description('stop tracking a repo (local files are kept)')
+  .argument('<repo>', 'owner/name')
+  .action(async (repo) => {
+    try {
+      await removeWorkspaceRepo(repo);
+    } catch (error) {
+      console.error(`error: ${error}`);
+      process.exit(1);
+    }
+  });
+
+workspace
+  .command('list')
+  .description('list workspace repos')
+  .action(async () => {
+    try {
+      await listWorkspaceRepos();
     } catch (error) {
       console.error(`error: ${error}`);
       process.exit(1);
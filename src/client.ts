@@ -1,84 +1,185 @@
 import { Octokit } from '@octokit/rest';
 import { graphql } from '@octokit/graphql';
-import { exec } from 'child_process';
+import { exec, execFile } from 'child_process';
 import { promisify } from 'util';
+import { loadConfig, getStorageRoot } from './storage.js';
+import { retryHook } from './request.js';
 
 const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_HOST = 'github.com';
+
+const cachedTokens = new Map<string, string>();
+const cachedOctokits = new Map<string, Octokit>();
+const cachedGraphqls = new Map<string, typeof graphql>();
+// per storage root and repo, config.json doesn't change endpoints mid-run
+const cachedEndpoints = new Map<string, ApiEndpoints>();
+let repoOverride: string | null = null;
+let hostOverride: string | null = null;
+
+export interface ApiEndpoints {
+  host: string;
+  rest: string;
+  graphql: string;
+  custom: boolean;
+}
 
-let cachedToken: string | null = null;
-let cachedOctokit: Octokit | null = null;
-let cachedGraphql: typeof graphql | null = null;
+function tokenEnvVars(host: string): string[] {
+  return host === DEFAULT_HOST
+    ? ['GITHUB_TOKEN', 'GH_TOKEN']
+    : ['GH_ENTERPRISE_TOKEN', 'GITHUB_ENTERPRISE_TOKEN'];
+}
 
-async function getGitHubToken(): Promise<string> {
-  if (cachedToken) {
-    return cachedToken;
+async function getGitHubToken(host: string): Promise<string> {
+  const cached = cachedTokens.get(host);
+  if (cached) {
+    return cached;
   }
 
   // check for env var first
-  const envToken = process.env.GITHUB_TOKEN || process.env.GH_TOKEN;
+  const envVars = tokenEnvVars(host);
+  const envToken = envVars.map(name => process.env[name]).find(Boolean);
   if (envToken) {
-    cachedToken = envToken;
-    return cachedToken;
+    cachedTokens.set(host, envToken);
+    return envToken;
   }
 
+  const loginCommand = host === DEFAULT_HOST ? 'gh auth login' : `gh auth login --hostname ${host}`;
+
   // fallback to gh cli
   try {
-    const { stdout } = await execAsync('gh auth token');
-    cachedToken = stdout.trim();
+    // the host comes from the git remote or config, keep it out of a shell
+    const { stdout } = await execFileAsync('gh', ['auth', 'token', '--hostname', host]);
+    const token = stdout.trim();
 
-    if (!cachedToken) {
+    if (!token) {
       throw new Error('gh auth token returned empty string');
     }
 
-    return cachedToken;
+    cachedTokens.set(host, token);
+    return token;
   } catch (error: any) {
     if (error.message?.includes('command not found') || error.code === 'ENOENT') {
       throw new Error(
-        'github authentication required. either:\n' +
-        '  1. set GITHUB_TOKEN or GH_TOKEN environment variable, or\n' +
-        '  2. install gh cli (https://cli.github.com/) and run: gh auth login'
+        `authentication required for ${host}. either:\n` +
+        `  1. set ${envVars.join(' or ')} environment variable, or\n` +
+        `  2. install gh cli (https://cli.github.com/) and run: ${loginCommand}`
       );
     }
 
     if (error.message?.includes('not logged in') || error.stderr?.includes('not logged in')) {
       throw new Error(
-        'not authenticated with github. either:\n' +
-        '  1. set GITHUB_TOKEN or GH_TOKEN environment variable, or\n' +
-        '  2. run: gh auth login'
+        `not authenticated with ${host}. either:\n` +
+        `  1. set ${envVars.join(' or ')} environment variable, or\n` +
+        `  2. run: ${loginCommand}`
       );
     }
 
-    throw new Error(`failed to get github token: ${error.message}`);
+    throw new Error(`failed to get token for ${host}: ${error.message}`);
+  }
+}
+
+// env overrides config, which overrides endpoints derived from the host
+export async function getApiEndpoints(): Promise<ApiEndpoints> {
+  const key = [getStorageRoot(), hostOverride, repoOverride].join('\0');
+  const cached = cachedEndpoints.get(key);
+  if (cached) {
+    return cached;
+  }
+
+  const config = await loadConfig();
+  const host = await getCurrentHost();
+
+  const customRest = process.env.ISSYNC_API_URL || config.api_url;
+  const customGraphql = process.env.ISSYNC_GRAPHQL_URL || config.graphql_url;
+
+  let rest = host === DEFAULT_HOST ? 'https://api.github.com' : `https://${host}/api/v3`;
+  if (customRest) {
+    rest = customRest.replace(/\/+$/, '');
+  }
+
+  let graphqlUrl = host === DEFAULT_HOST ? 'https://api.github.com/graphql' : `https://${host}/api/graphql`;
+  if (customGraphql) {
+    graphqlUrl = customGraphql;
+  } else if (customRest) {
+    graphqlUrl = rest.endsWith('/api/v3') ? rest.replace(/\/v3$/, '/graphql') : `${rest}/graphql`;
+  }
+
+  const endpoints = { host, rest, graphql: graphqlUrl, custom: Boolean(customRest || customGraphql) };
+  cachedEndpoints.set(key, endpoints);
+  return endpoints;
+}
+
+async function getToken(endpoints: ApiEndpoints): Promise<string | null> {
+  try {
+    return await getGitHubToken(endpoints.host);
+  } catch (error) {
+    // a local stand-in server doesn't need real credentials
+    if (endpoints.custom) {
+      return null;
+    }
+    throw error;
   }
 }
 
 export async function getOctokit(): Promise<Octokit> {
-  if (cachedOctokit) {
-    return cachedOctokit;
+  const endpoints = await getApiEndpoints();
+  const cached = cachedOctokits.get(endpoints.rest);
+  if (cached) {
+    return cached;
   }
 
-  const token = await getGitHubToken();
-  cachedOctokit = new Octokit({ auth: token });
+  const token = await getToken(endpoints);
+  const octokit = new Octokit({
+    baseUrl: endpoints.rest,
+    ...(token ? { auth: token } : {}),
+  });
+  octokit.hook.wrap('request', retryHook);
+  cachedOctokits.set(endpoints.rest, octokit);
 
-  return cachedOctokit;
+  return octokit;
 }
 
 export async function getGraphqlClient(): Promise<typeof graphql> {
-  if (cachedGraphql) {
-    return cachedGraphql;
+  const endpoints = await getApiEndpoints();
+  const cached = cachedGraphqls.get(endpoints.graphql);
+  if (cached) {
+    return cached;
   }
 
-  const token = await getGitHubToken();
-  cachedGraphql = graphql.defaults({
-    headers: {
-      authorization: `token ${token}`,
-    },
+  const token = await getToken(endpoints);
+  const client = graphql.defaults({
+    url: endpoints.graphql,
+    headers: token ? { authorization: `token ${token}` } : {},
+    request: { hook: retryHook },
   });
+  cachedGraphqls.set(endpoints.graphql, client);
 
-  return cachedGraphql;
+  return client;
 }
 
-export async function getCurrentRepo(): Promise<string> {
+// set by workspaces and --repo, takes precedence over the git remote
+export function setCurrentRepo(repo: string | null): void {
+  repoOverride = repo;
+}
+
+export function setCurrentHost(host: string | null): void {
+  hostOverride = host;
+}
+
+// handles https://host/owner/repo(.git), git@host:owner/repo(.git) and ssh://git@host(:port)/owner/repo,
+// including gitlab subgroups (group/subgroup/repo)
+export function parseRemoteUrl(url: string): { host: string; repo: string } | null {
+  const match = url.match(/^(?:[a-z+]+:\/\/)?(?:[^@/]+@)?([^:/]+)(?::\d+)?[:/]([^/]+(?:\/[^/]+?)+)(?:\.git)?\/?$/);
+  if (!match) {
+    return null;
+  }
+
+  return { host: match[1].toLowerCase(), repo: match[2] };
+}
+
+async function getGitRemote(): Promise<{ host: string; repo: string }> {
   // try upstream first (for forks), fall back to origin
   let url: string;
 
@@ -94,10 +195,40 @@ export async function getCurrentRepo(): Promise<string> {
     }
   }
 
-  const match = url.match(/github\.com[:/]([^/]+\/[^/.]+)/);
-  if (!match) {
-    throw new Error('could not parse github repo from git remote');
+  const remote = parseRemoteUrl(url);
+  if (!remote) {
+    throw new Error(`could not parse repo from git remote ${url}`);
+  }
+
+  return remote;
+}
+
+export async function getCurrentHost(): Promise<string> {
+  if (hostOverride) {
+    return hostOverride;
+  }
+
+  const config = await loadConfig();
+  if (config.host) {
+    return config.host;
+  }
+
+  // workspace repos don't come from a git remote
+  if (repoOverride) {
+    return DEFAULT_HOST;
+  }
+
+  try {
+    return (await getGitRemote()).host;
+  } catch {
+    return DEFAULT_HOST;
+  }
+}
+
+export async function getCurrentRepo(): Promise<string> {
+  if (repoOverride) {
+    return repoOverride;
   }
 
-  return match[1].replace(/\.git$/, '');
+  return (await getGitRemote()).repo;
 }
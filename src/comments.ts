@@ -0,0 +1,184 @@
+import { getProvider } from './provider.js';
+import {
+  loadComments,
+  saveComments,
+  listCommentFiles,
+  loadCommentsBase,
+  saveCommentsBase,
+} from './storage.js';
+import type { Comment, SyncState } from './types.js';
+
+function byCreated(a: Comment, b: Comment): number {
+  return (a.created_at || '').localeCompare(b.created_at || '');
+}
+
+// fetch comments updated since the last comment sync into the sidecar files,
+// keeping local edits and new comments that haven't been pushed
+export async function pullComments(
+  repo: string,
+  state: SyncState,
+  fullSync: boolean = false,
+  newIssues: number[] = []
+): Promise<void> {
+  const since = fullSync ? undefined : state.comments_synced_at;
+  const startedAt = new Date().toISOString();
+  const provider = await getProvider();
+  const remoteByIssue = await provider.fetchComments(repo, since);
+
+  // issues tracked for the first time need their older comments too
+  if (since) {
+    for (const number of newIssues) {
+      remoteByIssue.set(number, await provider.fetchIssueComments(repo, number));
+    }
+  }
+
+  let count = 0;
+  for (const [number, remoteComments] of remoteByIssue) {
+    if (!state.issues[number]) continue;
+    count += await storeRemoteComments(number, remoteComments);
+  }
+
+  state.comments_synced_at = startedAt;
+  console.log(`fetched ${count} comment(s)`);
+}
+
+// merge remote comments into an issue's sidecar file and drop the deleted ones,
+// keeping unpushed local edits and new local comments. a comment edited on both
+// sides keeps its local version and old base, so `up` won't push over the remote
+// edit. returns how many were updated
+export async function storeRemoteComments(
+  number: number,
+  remoteComments: Comment[],
+  deletedIds: number[] = []
+): Promise<number> {
+  const base = await loadCommentsBase(number);
+  const local = await loadComments(number) ?? base;
+  const baseById = new Map(base.map(c => [c.id, c]));
+  const localById = new Map(local.filter(c => c.id !== undefined).map(c => [c.id, c]));
+  let count = 0;
+
+  for (const remote of remoteComments) {
+    const localComment = localById.get(remote.id);
+    const baseComment = baseById.get(remote.id);
+
+    // keep unpushed local edits
+    if (localComment && baseComment && localComment.body !== baseComment.body && localComment.body !== remote.body) {
+      if (remote.body !== baseComment.body) {
+        console.log(`⚠ conflict in comment ${remote.id} on issue #${number}, edited on both sides, keeping local version`);
+      } else {
+        baseById.set(remote.id, remote);
+      }
+      continue;
+    }
+
+    baseById.set(remote.id, remote);
+    localById.set(remote.id, remote);
+    count++;
+  }
+
+  for (const id of deletedIds) {
+    baseById.delete(id);
+    localById.delete(id);
+  }
+
+  const merged = [
+    ...[...localById.values()].sort(byCreated),
+    ...local.filter(c => c.id === undefined),
+  ];
+
+  await saveComments(number, merged);
+  await saveCommentsBase(number, [...baseById.values()].sort(byCreated));
+  return count;
+}
+
+// new comments or edits waiting to be pushed, going by the base snapshots
+export async function hasCommentChanges(state: SyncState): Promise<boolean> {
+  for (const number of await listCommentFiles()) {
+    if (!state.issues[number]) continue;
+
+    const local = await loadComments(number);
+    if (!local) continue;
+
+    const baseById = new Map((await loadCommentsBase(number)).map(c => [c.id, c]));
+    if (local.some(c => (c.id === undefined ? !!c.body : baseById.has(c.id) && baseById.get(c.id)!.body !== c.body))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+// post new comments and push edits to your own comments
+export async function pushComments(repo: string, state: SyncState, dryRun: boolean = false): Promise<number> {
+  const provider = await getProvider();
+  let pushed = 0;
+  let viewer: string | null = null;
+
+  for (const number of await listCommentFiles()) {
+    if (!state.issues[number]) continue;
+
+    const local = await loadComments(number);
+    if (!local) continue;
+
+    const base = await loadCommentsBase(number);
+    const baseById = new Map(base.map(c => [c.id, c]));
+    let remoteById: Map<number | undefined, Comment> | null = null;
+    let changed = false;
+
+    for (const [idx, comment] of local.entries()) {
+      if (comment.id === undefined) {
+        if (!comment.body) continue;
+
+        if (dryRun) {
+          console.log(`would comment on issue #${number}`);
+        } else {
+          const created = await provider.createComment(repo, number, comment.body);
+          console.log(`commented on issue #${number}`);
+          local[idx] = created;
+          baseById.set(created.id, created);
+          changed = true;
+        }
+        pushed++;
+        continue;
+      }
+
+      const baseComment = baseById.get(comment.id);
+      if (!baseComment || baseComment.body === comment.body) continue;
+
+      viewer ??= await provider.getViewerLogin();
+      if (comment.author !== viewer) {
+        console.log(`comment ${comment.id} on issue #${number} is by ${comment.author}, only your own comments can be edited (skipping)`);
+        continue;
+      }
+
+      // the comment may have been edited on github since the last `down`
+      remoteById ??= new Map((await provider.fetchIssueComments(repo, number)).map(c => [c.id, c]));
+      const remote = remoteById.get(comment.id);
+      if (!remote) {
+        console.log(`comment ${comment.id} on issue #${number} was deleted on github (skipping)`);
+        continue;
+      }
+      if (remote.body !== baseComment.body && remote.body !== comment.body) {
+        console.log(`⚠ conflict in comment ${comment.id} on issue #${number}, edited on both sides (skipping)`);
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`would update comment ${comment.id} on issue #${number}`);
+      } else {
+        const updated = await provider.updateComment(repo, number, comment.id, comment.body);
+        console.log(`updated comment ${comment.id} on issue #${number}`);
+        local[idx] = updated;
+        baseById.set(updated.id, updated);
+        changed = true;
+      }
+      pushed++;
+    }
+
+    if (changed) {
+      await saveComments(number, local);
+      await saveCommentsBase(number, [...baseById.values()].sort(byCreated));
+    }
+  }
+
+  return pushed;
+}
@@ -0,0 +1,213 @@
+export type DiffOp =
+  | { type: 'equal'; line: string }
+  | { type: 'delete'; line: string }
+  | { type: 'insert'; line: string };
+
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split('\n');
+}
+
+// returns, for each line of a, the index of the matching line in b (or -1)
+// based on a longest common subsequence of lines
+function matchLines(a: string[], b: string[]): number[] {
+  const matches = new Array<number>(a.length).fill(-1);
+
+  // common prefix and suffix don't need the lcs table
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    matches[start] = start;
+    start++;
+  }
+
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+    matches[endA] = endB;
+  }
+
+  const n = endA - start;
+  const m = endB - start;
+  if (n === 0 || m === 0) {
+    return matches;
+  }
+
+  const lengths: Uint32Array[] = [];
+  for (let i = 0; i <= n; i++) {
+    lengths.push(new Uint32Array(m + 1));
+  }
+
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i][j] = a[start + i] === b[start + j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (a[start + i] === b[start + j]) {
+      matches[start + i] = start + j;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+}
+
+export function diffLines(a: string[], b: string[]): DiffOp[] {
+  const matches = matchLines(a, b);
+  const ops: DiffOp[] = [];
+  let j = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    if (matches[i] === -1) {
+      ops.push({ type: 'delete', line: a[i] });
+      continue;
+    }
+
+    while (j < matches[i]) {
+      ops.push({ type: 'insert', line: b[j++] });
+    }
+    ops.push({ type: 'equal', line: a[i] });
+    j++;
+  }
+
+  while (j < b.length) {
+    ops.push({ type: 'insert', line: b[j++] });
+  }
+
+  return ops;
+}
+
+export interface TextMergeResult {
+  text: string;
+  conflicts: number;
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+// line-based diff3: hunks changed on only one side are taken from that side,
+// overlapping hunks that differ are emitted with conflict markers
+export function mergeText(base: string, local: string, remote: string): TextMergeResult {
+  const baseLines = splitLines(base);
+  const localLines = splitLines(local);
+  const remoteLines = splitLines(remote);
+
+  const toLocal = matchLines(baseLines, localLines);
+  const toRemote = matchLines(baseLines, remoteLines);
+
+  const out: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let l = 0;
+  let r = 0;
+
+  while (i < baseLines.length || l < localLines.length || r < remoteLines.length) {
+    // line unchanged on both sides
+    if (i < baseLines.length && toLocal[i] === l && toRemote[i] === r) {
+      out.push(baseLines[i]);
+      i++;
+      l++;
+      r++;
+      continue;
+    }
+
+    // find the next base line both sides still agree on
+    let next = i;
+    while (next < baseLines.length && (toLocal[next] === -1 || toRemote[next] === -1)) {
+      next++;
+    }
+
+    const nextLocal = next < baseLines.length ? toLocal[next] : localLines.length;
+    const nextRemote = next < baseLines.length ? toRemote[next] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(i, next);
+    const localChunk = localLines.slice(l, nextLocal);
+    const remoteChunk = remoteLines.slice(r, nextRemote);
+
+    if (sameLines(localChunk, baseChunk)) {
+      out.push(...remoteChunk);
+    } else if (sameLines(remoteChunk, baseChunk) || sameLines(localChunk, remoteChunk)) {
+      out.push(...localChunk);
+    } else {
+      conflicts++;
+      out.push('<<<<<<< local', ...localChunk);
+      out.push('||||||| base', ...baseChunk);
+      out.push('=======', ...remoteChunk, '>>>>>>> remote');
+    }
+
+    i = next;
+    l = nextLocal;
+    r = nextRemote;
+  }
+
+  return { text: out.join('\n'), conflicts };
+}
+
+// unified diff with the usual @@ hunk headers, without the ---/+++ file header
+export function unifiedDiff(a: string, b: string, context: number = 3): string[] {
+  const ops = diffLines(splitLines(a), splitLines(b));
+  const out: string[] = [];
+
+  // positions of changed ops, grouped into hunks when their context overlaps
+  const changed = ops.map((op, idx) => (op.type === 'equal' ? -1 : idx)).filter(idx => idx !== -1);
+  if (changed.length === 0) {
+    return out;
+  }
+
+  let hunkStart = 0;
+  while (hunkStart < changed.length) {
+    let hunkEnd = hunkStart;
+    while (hunkEnd + 1 < changed.length && changed[hunkEnd + 1] - changed[hunkEnd] <= context * 2) {
+      hunkEnd++;
+    }
+
+    const from = Math.max(0, changed[hunkStart] - context);
+    const to = Math.min(ops.length, changed[hunkEnd] + context + 1);
+
+    // line numbers at the start of the hunk
+    let lineA = 1;
+    let lineB = 1;
+    for (let i = 0; i < from; i++) {
+      if (ops[i].type !== 'insert') lineA++;
+      if (ops[i].type !== 'delete') lineB++;
+    }
+
+    const lines: string[] = [];
+    let countA = 0;
+    let countB = 0;
+    for (let i = from; i < to; i++) {
+      const op = ops[i];
+      if (op.type === 'equal') {
+        lines.push(` ${op.line}`);
+        countA++;
+        countB++;
+      } else if (op.type === 'delete') {
+        lines.push(`-${op.line}`);
+        countA++;
+      } else {
+        lines.push(`+${op.line}`);
+        countB++;
+      }
+    }
+
+    const startA = countA === 0 ? lineA - 1 : lineA;
+    const startB = countB === 0 ? lineB - 1 : lineB;
+    out.push(`@@ -${startA},${countA} +${startB},${countB} @@`, ...lines);
+
+    hunkStart = hunkEnd + 1;
+  }
+
+  return out;
+}
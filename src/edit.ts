@@ -0,0 +1,166 @@
+import { createInterface } from 'readline/promises';
+import {
+  loadIssue,
+  saveIssue,
+  loadConfig,
+  loadLabels,
+  loadMilestones,
+} from './storage.js';
+import { describeChanges } from './changes.js';
+import { searchIssues } from './search.js';
+import { parseProjectFieldValue } from './project.js';
+import type { Issue, ProjectField, ProjectFieldValue } from './types.js';
+
+export interface IssueEdits {
+  addLabels?: string[];
+  removeLabels?: string[];
+  addAssignees?: string[];
+  removeAssignees?: string[];
+  // "none" clears it
+  milestone?: string;
+  state?: string;
+  // name=value, an empty value clears the field
+  fields?: string[];
+}
+
+// values are typed by the cached project fields, so they compare equal to remote ones
+function parseFields(pairs: string[], projectFields: ProjectField[] | undefined): Record<string, ProjectFieldValue> {
+  const fields: Record<string, ProjectFieldValue> = {};
+  for (const pair of pairs) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) {
+      throw new Error(`invalid project field "${pair}" (expected name=value)`);
+    }
+    const name = pair.slice(0, eq);
+    fields[name] = parseProjectFieldValue(projectFields, name, pair.slice(eq + 1));
+  }
+  return fields;
+}
+
+// catches what `up` would reject anyway, before touching any files
+async function checkEdits(edits: IssueEdits): Promise<void> {
+  if (edits.state !== undefined && edits.state !== 'open' && edits.state !== 'closed') {
+    throw new Error(`invalid state "${edits.state}" (expected open or closed)`);
+  }
+
+  const milestones = await loadMilestones();
+  if (edits.milestone && edits.milestone !== 'none' && milestones && !milestones.some(m => m.title === edits.milestone)) {
+    throw new Error(`milestone "${edits.milestone}" is not in milestones.yml`);
+  }
+
+  const labels = await loadLabels();
+  for (const label of edits.addLabels || []) {
+    if (labels && !labels.some(l => l.name === label)) {
+      console.warn(`warning: label "${label}" is not in labels.yml, it will be created by \`up\``);
+    }
+  }
+}
+
+function applyEdits(issue: Issue, edits: IssueEdits, fields: Record<string, ProjectFieldValue>): Issue {
+  const edited: Issue = { ...issue };
+
+  const labels = new Set([...issue.labels, ...(edits.addLabels || [])]);
+  for (const label of edits.removeLabels || []) {
+    labels.delete(label);
+  }
+  edited.labels = [...labels];
+
+  const assignees = new Set([...issue.assignees, ...(edits.addAssignees || [])]);
+  for (const login of edits.removeAssignees || []) {
+    assignees.delete(login);
+  }
+  edited.assignees = [...assignees];
+
+  if (edits.milestone !== undefined) {
+    edited.milestone = edits.milestone === 'none' ? null : edits.milestone;
+  }
+  if (edits.state !== undefined) {
+    edited.state = edits.state as Issue['state'];
+  }
+  if (Object.keys(fields).length > 0) {
+    edited.project_fields = { ...issue.project_fields, ...fields };
+  }
+
+  return edited;
+}
+
+async function confirm(count: number): Promise<boolean> {
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    const answer = (await rl.question(`apply changes to ${count} issue(s)? [y/N] `)).trim().toLowerCase();
+    return answer === 'y' || answer === 'yes';
+  } finally {
+    rl.close();
+  }
+}
+
+// edits the local files of the selected issues (numbers, or a search query),
+// previewing every change first. nothing is pushed, the next `up` does that
+export async function editIssues(
+  numbers: number[],
+  query: string | undefined,
+  edits: IssueEdits,
+  yes: boolean = false,
+  dryRun: boolean = false
+): Promise<void> {
+  if (numbers.length === 0 && query === undefined) {
+    throw new Error('pick issues by number or with --query');
+  }
+
+  const fields = parseFields(edits.fields || [], (await loadConfig()).project?.cached_fields);
+  await checkEdits(edits);
+
+  const selected = new Set(numbers);
+  if (query !== undefined) {
+    for (const result of await searchIssues(query)) {
+      selected.add(result.number);
+    }
+  }
+
+  const changes: Issue[] = [];
+  for (const number of [...selected].sort((a, b) => a - b)) {
+    const issue = await loadIssue(number);
+    if (!issue) {
+      console.warn(`warning: issue #${number} has no local file (skipping)`);
+      continue;
+    }
+
+    const edited = applyEdits(issue, edits, fields);
+    const lines = describeChanges(issue, edited);
+    if (lines.length === 0) {
+      continue;
+    }
+
+    console.log(`issue #${number}: ${issue.title}`);
+    for (const line of lines) {
+      console.log(`  ${line}`);
+    }
+    changes.push(edited);
+  }
+
+  if (changes.length === 0) {
+    console.log('nothing to change');
+    return;
+  }
+
+  if (dryRun) {
+    console.log(`${changes.length} issue(s) would be changed`);
+    return;
+  }
+
+  if (!yes) {
+    if (!process.stdin.isTTY) {
+      console.log(`${changes.length} issue(s) would be changed, rerun with --yes to apply`);
+      return;
+    }
+    if (!await confirm(changes.length)) {
+      console.log('no changes made');
+      return;
+    }
+  }
+
+  for (const issue of changes) {
+    await saveIssue(issue);
+  }
+  console.log(`updated ${changes.length} issue(s), run \`issync up\` to push them`);
+}
@@ -0,0 +1,352 @@
+import { readFile, writeFile } from 'fs/promises';
+import { extname } from 'path';
+import {
+  loadIssue,
+  loadAllLocalIssues,
+  saveIssue,
+  loadConfig,
+  loadMilestones,
+} from './storage.js';
+import { describeChanges } from './changes.js';
+import { csvCell } from './query.js';
+import { sameValue, GITLAB_FIELDS } from './merge.js';
+import { parseProjectFieldValue } from './project.js';
+import type { Issue, GitLabFields, ProjectField, ProjectFieldValue } from './types.js';
+
+export type ExportFormat = 'csv' | 'json' | 'jsonl';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'jsonl'];
+
+type Row = Record<string, string | string[] | number | null>;
+
+const COLUMNS = ['number', 'title', 'state', 'labels', 'assignees', 'milestone', 'created_at', 'updated_at', 'closed_at', 'url'];
+// what an import can't change, edits to these are ignored
+const READ_ONLY = ['created_at', 'updated_at', 'closed_at', 'url'];
+const PROJECT_PREFIX = 'project_fields.';
+const GITLAB_PREFIX = 'gitlab.';
+// labels and assignees are joined into one csv cell
+const LIST_SEPARATOR = ', ';
+
+function toRow(issue: Issue, columns: string[]): Row {
+  const row: Row = {};
+  for (const column of columns) {
+    if (column.startsWith(PROJECT_PREFIX)) {
+      row[column] = issue.project_fields?.[column.slice(PROJECT_PREFIX.length)] ?? null;
+    } else if (column.startsWith(GITLAB_PREFIX)) {
+      row[column] = issue.gitlab?.[column.slice(GITLAB_PREFIX.length) as keyof GitLabFields] ?? null;
+    } else {
+      const value = (issue as any)[column];
+      row[column] = value ?? null;
+    }
+  }
+  return row;
+}
+
+// frontmatter columns plus one per project field and gitlab field in use
+function exportColumns(issues: Issue[]): string[] {
+  const projectFields = [...new Set(issues.flatMap(i => Object.keys(i.project_fields || {})))].sort();
+  const gitlab = issues.some(i => i.gitlab) ? GITLAB_FIELDS.map(f => `${GITLAB_PREFIX}${f}`) : [];
+  return [...COLUMNS, ...projectFields.map(f => `${PROJECT_PREFIX}${f}`), ...gitlab];
+}
+
+// spreadsheets run cells starting with one of these as formulas, and anyone can
+// title an issue on a public repo. such cells get a leading quote, and so do cells
+// that only look quoted already, so an import can take exactly one off again
+const FORMULA = /^'*[=+\-@\t\r]/;
+const NEUTRALISED = /^'+[=+\-@\t\r]/;
+
+function neutralise(cell: string): string {
+  return FORMULA.test(cell) ? `'${cell}` : cell;
+}
+
+function unneutralise(cell: string): string {
+  return NEUTRALISED.test(cell) ? cell.slice(1) : cell;
+}
+
+function csvValue(value: Row[string]): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  // negative numbers are safe, and stay numbers in the spreadsheet
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  return neutralise(Array.isArray(value) ? value.join(LIST_SEPARATOR) : value);
+}
+
+export function formatRows(rows: Row[], columns: string[], format: ExportFormat): string {
+  switch (format) {
+    case 'csv':
+      return [
+        columns.map(c => csvCell(neutralise(c))).join(','),
+        ...rows.map(row => columns.map(c => csvCell(csvValue(row[c]))).join(',')),
+      ].join('\n') + '\n';
+
+    case 'json':
+      return JSON.stringify(rows, null, 2) + '\n';
+
+    case 'jsonl':
+      return rows.map(row => JSON.stringify(row)).join('\n') + (rows.length > 0 ? '\n' : '');
+  }
+}
+
+function checkFormat(format: string): ExportFormat {
+  if (!EXPORT_FORMATS.includes(format as ExportFormat)) {
+    throw new Error(`unknown format "${format}" (expected ${EXPORT_FORMATS.join(', ')})`);
+  }
+  return format as ExportFormat;
+}
+
+// every local issue as a row, written to `output` or stdout
+export async function exportIssues(format: string, output?: string): Promise<void> {
+  const issues = (await loadAllLocalIssues()).sort((a, b) => a.number - b.number);
+  const columns = exportColumns(issues);
+  const content = formatRows(issues.map(i => toRow(i, columns)), columns, checkFormat(format));
+
+  if (output) {
+    await writeFile(output, content, 'utf-8');
+    console.log(`exported ${issues.length} issue(s) to ${output}`);
+  } else {
+    process.stdout.write(content);
+  }
+}
+
+// rfc 4180: quoted cells can hold commas, quotes ("") and newlines
+export function parseCsv(content: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const text = content.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++;
+      }
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (quoted) {
+    throw new Error(`unterminated quoted cell on row ${rows.length + 1}`);
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // spreadsheets like to leave blank lines at the end
+  return rows.filter(r => r.some(c => c.trim() !== ''));
+}
+
+function parseRows(content: string, format: ExportFormat): Row[] {
+  if (format === 'json') {
+    const data = JSON.parse(content);
+    if (!Array.isArray(data)) {
+      throw new Error('expected a json array of rows');
+    }
+    return data;
+  }
+
+  if (format === 'jsonl') {
+    return content.split(/\r?\n/).filter(line => line.trim()).map((line, i) => {
+      try {
+        return JSON.parse(line);
+      } catch (error: any) {
+        throw new Error(`line ${i + 1}: ${error.message}`);
+      }
+    });
+  }
+
+  const [header, ...rows] = parseCsv(content);
+  if (!header) {
+    return [];
+  }
+
+  return rows.map((cells, i) => {
+    if (cells.length !== header.length) {
+      throw new Error(`row ${i + 2}: expected ${header.length} cells, got ${cells.length}`);
+    }
+    return Object.fromEntries(header.map((column, c) => [unneutralise(column.trim()), unneutralise(cells[c])]));
+  });
+}
+
+function text(value: unknown): string {
+  return value === null || value === undefined ? '' : String(value).trim();
+}
+
+function list(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return value.map(String);
+  }
+  return text(value).split(',').map(v => v.trim()).filter(Boolean);
+}
+
+// the local issue with the row's editable cells applied
+function applyRow(issue: Issue, row: Row, projectFields: ProjectField[] | undefined, milestones: string[] | null): Issue {
+  const edited: Issue = { ...issue };
+
+  for (const [column, raw] of Object.entries(row)) {
+    if (column === 'number' || READ_ONLY.includes(column)) {
+      continue;
+    }
+
+    if (column.startsWith(PROJECT_PREFIX)) {
+      const name = column.slice(PROJECT_PREFIX.length);
+      const value = parseProjectFieldValue(projectFields, name, text(raw));
+      if (!sameValue(value, issue.project_fields?.[name] ?? null)) {
+        edited.project_fields = { ...edited.project_fields, [name]: value };
+      }
+      continue;
+    }
+
+    if (column.startsWith(GITLAB_PREFIX)) {
+      const name = column.slice(GITLAB_PREFIX.length);
+      const value = text(raw) || null;
+      if (name === 'weight') {
+        const weight = value === null ? null : Number(value);
+        if (Number.isNaN(weight)) {
+          throw new Error(`"${value}" is not a number for gitlab.weight`);
+        }
+        edited.gitlab = { ...(edited.gitlab ?? { weight: null, due_date: null }), weight };
+      } else if (name === 'due_date') {
+        if (value !== null && !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+          throw new Error(`"${value}" is not a YYYY-MM-DD date for gitlab.due_date`);
+        }
+        edited.gitlab = { ...(edited.gitlab ?? { weight: null, due_date: null }), due_date: value };
+      } else {
+        throw new Error(`unknown column "${column}"`);
+      }
+      continue;
+    }
+
+    switch (column) {
+      case 'title':
+        if (!text(raw)) {
+          throw new Error('title can\'t be empty');
+        }
+        edited.title = text(raw);
+        break;
+
+      case 'state':
+        if (text(raw) !== 'open' && text(raw) !== 'closed') {
+          throw new Error(`invalid state "${text(raw)}" (expected open or closed)`);
+        }
+        edited.state = text(raw) as Issue['state'];
+        break;
+
+      case 'labels':
+      case 'assignees': {
+        const values = list(raw);
+        // keep the existing order when only the cell formatting changed
+        if (!sameValue([...values].sort(), [...issue[column]].sort())) {
+          edited[column] = values;
+        }
+        break;
+      }
+
+      case 'milestone':
+        if (text(raw) && milestones && !milestones.includes(text(raw))) {
+          throw new Error(`milestone "${text(raw)}" is not in milestones.yml`);
+        }
+        edited.milestone = text(raw) || null;
+        break;
+
+      default:
+        throw new Error(`unknown column "${column}"`);
+    }
+  }
+
+  return edited;
+}
+
+// reads rows back and writes only the changed cells into the local files.
+// every row is checked first, so one bad row means nothing is written
+export async function importIssues(file: string, format?: string, dryRun: boolean = false): Promise<void> {
+  const resolved = checkFormat(format || extname(file).slice(1).toLowerCase());
+  const rows = parseRows(await readFile(file, 'utf-8'), resolved);
+  const projectFields = (await loadConfig()).project?.cached_fields;
+  const milestones = (await loadMilestones())?.map(m => m.title) ?? null;
+
+  const errors: string[] = [];
+  const changes: { before: Issue; after: Issue }[] = [];
+  const seen = new Set<number>();
+
+  for (const [i, row] of rows.entries()) {
+    // csv rows start after the header
+    const label = resolved === 'csv' ? `row ${i + 2}` : `row ${i + 1}`;
+
+    try {
+      const number = Number(text(row.number));
+      if (!Number.isInteger(number) || number <= 0) {
+        throw new Error(`invalid issue number "${text(row.number)}"`);
+      }
+      if (seen.has(number)) {
+        throw new Error(`issue #${number} appears more than once`);
+      }
+      seen.add(number);
+
+      const issue = await loadIssue(number);
+      if (!issue) {
+        throw new Error(`issue #${number} has no local file`);
+      }
+
+      const edited = applyRow(issue, row, projectFields, milestones);
+      if (describeChanges(issue, edited).length > 0) {
+        changes.push({ before: issue, after: edited });
+      }
+    } catch (error: any) {
+      errors.push(`${label}: ${error.message}`);
+    }
+  }
+
+  if (errors.length > 0) {
+    for (const error of errors) {
+      console.error(`error: ${error}`);
+    }
+    throw new Error(`${errors.length} row(s) rejected, nothing imported`);
+  }
+
+  for (const { before, after } of changes) {
+    console.log(`issue #${after.number}: ${after.title}`);
+    for (const line of describeChanges(before, after)) {
+      console.log(`  ${line}`);
+    }
+    if (!dryRun) {
+      await saveIssue(after);
+    }
+  }
+
+  if (changes.length === 0) {
+    console.log('no changes to import');
+  } else if (dryRun) {
+    console.log(`${changes.length} issue(s) would be changed`);
+  } else {
+    console.log(`updated ${changes.length} issue(s), run \`issync up\` to push them`);
+  }
+}
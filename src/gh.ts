@@ -1,8 +1,25 @@
-import { getOctokit, getCurrentRepo as getRepo } from './client.js';
-import type { Issue } from './types.js';
+import { getOctokit, getGraphqlClient, getCurrentRepo as getRepo } from './client.js';
+import type { IssueLocation } from './provider.js';
+import type { Issue, Comment, Label, Milestone } from './types.js';
 
 export { getCurrentRepo } from './client.js';
 
+export function toIssue(issue: any): Issue {
+  return {
+    number: issue.number,
+    title: issue.title,
+    body: (issue.body || '').trim(),
+    state: issue.state as 'open' | 'closed',
+    labels: issue.labels.map((l: any) => (typeof l === 'string' ? l : l.name)),
+    assignees: issue.assignees?.map((a: any) => a.login) || [],
+    milestone: issue.milestone?.title || null,
+    created_at: issue.created_at,
+    updated_at: issue.updated_at,
+    closed_at: issue.closed_at || null,
+    url: issue.html_url,
+  };
+}
+
 export async function fetchIssues(
   repo: string,
   includeClosed: boolean = false,
@@ -42,19 +59,7 @@ export async function fetchIssues(
         continue;
       }
 
-      allIssues.push({
-        number: issue.number,
-        title: issue.title,
-        body: (issue.body || '').trim(),
-        state: issue.state as 'open' | 'closed',
-        labels: issue.labels.map((l: any) => (typeof l === 'string' ? l : l.name)),
-        assignees: issue.assignees?.map((a: any) => a.login) || [],
-        milestone: issue.milestone?.title || null,
-        created_at: issue.created_at,
-        updated_at: issue.updated_at,
-        closed_at: issue.closed_at || null,
-        url: issue.html_url,
-      });
+      allIssues.push(toIssue(issue));
     }
 
     if (data.length < per_page) {
@@ -67,6 +72,87 @@ export async function fetchIssues(
   return allIssues;
 }
 
+export async function fetchIssue(repo: string, number: number): Promise<Issue | null> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  try {
+    const { data } = await octokit.rest.issues.get({ owner, repo: repoName, issue_number: number });
+    return data.pull_request ? null : toIssue(data);
+  } catch (error: any) {
+    if (error.status === 404) {
+      return null;
+    }
+    throw new Error(`failed to fetch issue ${number}: ${error.message}`);
+  }
+}
+
+// number and state of every issue, a lot cheaper than fetching them in full
+export async function fetchIssueStates(repo: string): Promise<Map<number, Issue['state']>> {
+  const graphqlClient = await getGraphqlClient();
+  const [owner, repoName] = repo.split('/');
+  const states = new Map<number, Issue['state']>();
+  let cursor: string | null = null;
+
+  try {
+    while (true) {
+      const result: any = await graphqlClient(
+        `query($owner: String!, $name: String!, $cursor: String) {
+          repository(owner: $owner, name: $name) {
+            issues(first: 100, after: $cursor) {
+              nodes { number state }
+              pageInfo { hasNextPage endCursor }
+            }
+          }
+        }`,
+        { owner, name: repoName, cursor }
+      );
+
+      const issues = result.repository.issues;
+      for (const issue of issues.nodes) {
+        states.set(issue.number, issue.state === 'CLOSED' ? 'closed' : 'open');
+      }
+
+      if (!issues.pageInfo.hasNextPage) {
+        break;
+      }
+      cursor = issues.pageInfo.endCursor;
+    }
+  } catch (error: any) {
+    throw new Error(`failed to fetch issue states: ${error.message}`);
+  }
+
+  return states;
+}
+
+// github redirects transferred issues to their new repo and answers 410 for deleted ones
+export async function locateIssue(repo: string, number: number): Promise<IssueLocation> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  try {
+    const { data } = await octokit.rest.issues.get({ owner, repo: repoName, issue_number: number });
+    const [newOwner, newName] = data.repository_url.split('/').slice(-2);
+    const newRepo = `${newOwner}/${newName}`;
+
+    if (newRepo.toLowerCase() !== repo.toLowerCase() || data.number !== number) {
+      return { status: 'transferred', repo: newRepo, number: data.number };
+    }
+    if (data.pull_request) {
+      return { status: 'missing' };
+    }
+    return { status: 'found', issue: toIssue(data) };
+  } catch (error: any) {
+    if (error.status === 410) {
+      return { status: 'deleted' };
+    }
+    if (error.status === 404) {
+      return { status: 'missing' };
+    }
+    throw new Error(`failed to look up issue ${number}: ${error.message}`);
+  }
+}
+
 export async function updateIssue(
   repo: string,
   number: number,
@@ -74,11 +160,13 @@ export async function updateIssue(
     title?: string;
     body?: string;
     state?: 'open' | 'closed';
+    state_reason?: 'completed' | 'not_planned';
     labels?: string[];
     assignees?: string[];
     milestone?: string | null;
+    milestone_number?: number;
   }
-): Promise<void> {
+): Promise<Issue> {
   const octokit = await getOctokit();
   const [owner, repoName] = repo.split('/');
 
@@ -100,6 +188,10 @@ export async function updateIssue(
     params.state = updates.state;
   }
 
+  if (updates.state_reason !== undefined) {
+    params.state_reason = updates.state_reason;
+  }
+
   if (updates.labels !== undefined) {
     params.labels = updates.labels;
   }
@@ -109,22 +201,14 @@ export async function updateIssue(
   }
 
   if (updates.milestone !== undefined) {
-    if (updates.milestone === null) {
-      params.milestone = null;
-    } else {
-      const { data: milestones } = await octokit.rest.issues.listMilestones({
-        owner,
-        repo: repoName,
-      });
-      const milestone = milestones.find(m => m.title === updates.milestone);
-      if (milestone) {
-        params.milestone = milestone.number;
-      }
-    }
+    params.milestone = updates.milestone === null
+      ? null
+      : updates.milestone_number ?? await findMilestoneNumber(repo, updates.milestone);
   }
 
   try {
-    await octokit.rest.issues.update(params);
+    const { data } = await octokit.rest.issues.update(params);
+    return toIssue(data);
   } catch (error: any) {
     throw new Error(`failed to update issue ${number}: ${error.message}`);
   }
@@ -132,8 +216,8 @@ export async function updateIssue(
 
 export async function createIssue(
   repo: string,
-  issue: Omit<Issue, 'number' | 'created_at' | 'updated_at' | 'closed_at' | 'url'>
-): Promise<number> {
+  issue: Omit<Issue, 'number' | 'created_at' | 'updated_at' | 'closed_at' | 'url'> & { milestone_number?: number }
+): Promise<{ issue: Issue; nodeId: string }> {
   const octokit = await getOctokit();
   const [owner, repoName] = repo.split('/');
 
@@ -153,20 +237,255 @@ export async function createIssue(
   }
 
   if (issue.milestone) {
-    const { data: milestones } = await octokit.rest.issues.listMilestones({
+    params.milestone = issue.milestone_number ?? await findMilestoneNumber(repo, issue.milestone);
+  }
+
+  try {
+    const { data } = await octokit.rest.issues.create(params);
+    return { issue: toIssue(data), nodeId: data.node_id };
+  } catch (error: any) {
+    throw new Error(`failed to create issue: ${error.message}`);
+  }
+}
+
+export function toMilestone(milestone: any): Milestone {
+  return {
+    number: milestone.number,
+    title: milestone.title,
+    state: milestone.state as 'open' | 'closed',
+    description: milestone.description || null,
+    due_on: milestone.due_on || null,
+  };
+}
+
+export async function fetchMilestones(repo: string): Promise<Milestone[]> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  const milestones = await octokit.paginate(octokit.rest.issues.listMilestones, {
+    owner,
+    repo: repoName,
+    state: 'all',
+    per_page: 100,
+  });
+
+  return milestones.map(toMilestone).sort((a, b) => a.number! - b.number!);
+}
+
+async function findMilestoneNumber(repo: string, title: string): Promise<number> {
+  const milestones = await fetchMilestones(repo);
+  const milestone = milestones.find(m => m.title === title);
+  if (!milestone) {
+    throw new Error(`milestone "${title}" does not exist in ${repo}`);
+  }
+  return milestone.number!;
+}
+
+function milestoneParams(milestone: Milestone): any {
+  let dueOn = milestone.due_on;
+  // allow plain dates in milestones.yml
+  if (dueOn && /^\d{4}-\d{2}-\d{2}$/.test(dueOn)) {
+    dueOn = `${dueOn}T00:00:00Z`;
+  }
+
+  return {
+    title: milestone.title,
+    state: milestone.state,
+    description: milestone.description || '',
+    due_on: dueOn || null,
+  };
+}
+
+export async function createMilestone(repo: string, milestone: Milestone): Promise<Milestone> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  try {
+    const { data } = await octokit.rest.issues.createMilestone({
       owner,
       repo: repoName,
+      ...milestoneParams(milestone),
     });
-    const milestone = milestones.find(m => m.title === issue.milestone);
-    if (milestone) {
-      params.milestone = milestone.number;
+    return toMilestone(data);
+  } catch (error: any) {
+    throw new Error(`failed to create milestone "${milestone.title}": ${error.message}`);
+  }
+}
+
+export async function updateMilestone(repo: string, number: number, milestone: Milestone): Promise<Milestone> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  try {
+    const { data } = await octokit.rest.issues.updateMilestone({
+      owner,
+      repo: repoName,
+      milestone_number: number,
+      ...milestoneParams(milestone),
+    });
+    return toMilestone(data);
+  } catch (error: any) {
+    throw new Error(`failed to update milestone "${milestone.title}": ${error.message}`);
+  }
+}
+
+export function toLabel(label: any): Label {
+  return {
+    id: label.id,
+    name: label.name,
+    color: label.color,
+    description: label.description || null,
+  };
+}
+
+export async function fetchLabels(repo: string): Promise<Label[]> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  const labels = await octokit.paginate(octokit.rest.issues.listLabelsForRepo, {
+    owner,
+    repo: repoName,
+    per_page: 100,
+  });
+
+  return labels.map(toLabel).sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function createLabel(repo: string, label: Label): Promise<Label> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  try {
+    const { data } = await octokit.rest.issues.createLabel({
+      owner,
+      repo: repoName,
+      name: label.name,
+      color: label.color,
+      description: label.description || undefined,
+    });
+    return toLabel(data);
+  } catch (error: any) {
+    throw new Error(`failed to create label "${label.name}": ${error.message}`);
+  }
+}
+
+export async function updateLabel(repo: string, currentName: string, label: Label): Promise<Label> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  try {
+    const { data } = await octokit.rest.issues.updateLabel({
+      owner,
+      repo: repoName,
+      name: currentName,
+      new_name: label.name,
+      color: label.color,
+      description: label.description || '',
+    });
+    return toLabel(data);
+  } catch (error: any) {
+    throw new Error(`failed to update label "${currentName}": ${error.message}`);
+  }
+}
+
+let cachedViewer: string | null = null;
+
+export async function getViewerLogin(): Promise<string> {
+  if (cachedViewer) {
+    return cachedViewer;
+  }
+
+  const octokit = await getOctokit();
+  const { data } = await octokit.rest.users.getAuthenticated();
+  cachedViewer = data.login;
+  return cachedViewer;
+}
+
+export function toComment(comment: any): Comment {
+  return {
+    id: comment.id,
+    author: comment.user?.login || null,
+    body: (comment.body || '').trim(),
+    created_at: comment.created_at,
+    updated_at: comment.updated_at,
+  };
+}
+
+// comments across the whole repo, grouped by issue number
+export async function fetchComments(repo: string, updatedSince?: string): Promise<Map<number, Comment[]>> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  const params: any = {
+    owner,
+    repo: repoName,
+    per_page: 100,
+    sort: 'updated',
+    direction: 'asc',
+  };
+
+  if (updatedSince) {
+    params.since = updatedSince;
+  }
+
+  const comments = await octokit.paginate(octokit.rest.issues.listCommentsForRepo, params);
+  const byIssue = new Map<number, Comment[]>();
+
+  for (const comment of comments as any[]) {
+    const number = parseInt(comment.issue_url.split('/').pop(), 10);
+    if (!byIssue.has(number)) {
+      byIssue.set(number, []);
     }
+    byIssue.get(number)!.push(toComment(comment));
   }
 
+  return byIssue;
+}
+
+export async function fetchIssueComments(repo: string, number: number): Promise<Comment[]> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  const comments = await octokit.paginate(octokit.rest.issues.listComments, {
+    owner,
+    repo: repoName,
+    issue_number: number,
+    per_page: 100,
+  });
+
+  return comments.map(toComment);
+}
+
+export async function createComment(repo: string, number: number, body: string): Promise<Comment> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
   try {
-    const { data } = await octokit.rest.issues.create(params);
-    return data.number;
+    const { data } = await octokit.rest.issues.createComment({
+      owner,
+      repo: repoName,
+      issue_number: number,
+      body,
+    });
+    return toComment(data);
   } catch (error: any) {
-    throw new Error(`failed to create issue: ${error.message}`);
+    throw new Error(`failed to comment on issue ${number}: ${error.message}`);
+  }
+}
+
+export async function updateComment(repo: string, id: number, body: string): Promise<Comment> {
+  const octokit = await getOctokit();
+  const [owner, repoName] = repo.split('/');
+
+  try {
+    const { data } = await octokit.rest.issues.updateComment({
+      owner,
+      repo: repoName,
+      comment_id: id,
+      body,
+    });
+    return toComment(data);
+  } catch (error: any) {
+    throw new Error(`failed to update comment ${id}: ${error.message}`);
   }
 }
@@ -0,0 +1,87 @@
+import {
+  getCurrentRepo,
+  fetchIssues,
+  fetchIssue,
+  fetchIssueStates,
+  locateIssue,
+  updateIssue,
+  createIssue,
+  fetchMilestones,
+  createMilestone,
+  updateMilestone,
+  fetchLabels,
+  createLabel,
+  updateLabel,
+  getViewerLogin,
+  fetchComments,
+  fetchIssueComments,
+  createComment,
+  updateComment,
+} from './gh.js';
+import {
+  getOrCreateProjectConfig,
+  getProjectFields,
+  getProjectId,
+  getProjectItemsForIssues,
+  fetchIssuesWithProjectItems,
+  addProjectItem,
+  updateProjectField,
+} from './project.js';
+import type { IssueProvider } from './provider.js';
+
+export const githubProvider: IssueProvider = {
+  name: 'github',
+
+  getCurrentRepo,
+
+  fetchIssues,
+  fetchIssue,
+  fetchIssueStates,
+  locateIssue,
+  updateIssue,
+  createIssue,
+
+  fetchIssueBatch(repo, includeClosed, updatedSince, project) {
+    return fetchIssuesWithProjectItems(repo, includeClosed, updatedSince, project?.project_number ?? null);
+  },
+
+  fetchMilestones,
+  createMilestone,
+  updateMilestone,
+
+  fetchLabels,
+  createLabel,
+  updateLabel,
+
+  getViewerLogin,
+  fetchComments,
+  fetchIssueComments,
+  createComment,
+
+  updateComment(repo, number, id, body) {
+    return updateComment(repo, id, body);
+  },
+
+  getProjectConfig(repo) {
+    return getOrCreateProjectConfig(repo.split('/')[0], repo);
+  },
+
+  getProjectFields(project) {
+    return getProjectFields(project.project_number!, project.owner!, project.cached_fields, project.fields_cached_at);
+  },
+
+  getProjectId(project) {
+    return getProjectId(project.project_number!, project.owner!);
+  },
+
+  getProjectItems(project, repo, issueNumbers) {
+    const [owner, repoName] = repo.split('/');
+    return getProjectItemsForIssues(project.project_number!, project.owner!, owner, repoName, issueNumbers);
+  },
+
+  addProjectItem,
+
+  updateProjectField(projectId, itemId, field, value) {
+    return updateProjectField(projectId, itemId, field.id, field, value);
+  },
+};
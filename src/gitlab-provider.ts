@@ -0,0 +1,500 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { getCurrentHost, getCurrentRepo } from './client.js';
+import { loadConfig } from './storage.js';
+import { withRetry, noteRateLimit, isIdempotent } from './request.js';
+import type { IssueProvider, IssueUpdate } from './provider.js';
+import type { Issue, Comment, Label, Milestone } from './types.js';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_HOST = 'gitlab.com';
+
+const cachedTokens = new Map<string, string>();
+const cachedUserIds = new Map<string, number>();
+let cachedViewer: string | null = null;
+
+// GITLAB_HOST may be a url, glab accepts both
+function tokenHost(value: string): string {
+  return value.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+}
+
+async function getGitLabToken(host: string): Promise<string> {
+  const cached = cachedTokens.get(host);
+  if (cached) {
+    return cached;
+  }
+
+  // check for env var first. like glab, the token is for GITLAB_HOST (gitlab.com
+  // by default) only, so it isn't sent to every server a remote points at
+  const envHost = process.env.GITLAB_HOST || process.env.GL_HOST || DEFAULT_HOST;
+  const envToken = process.env.GITLAB_TOKEN || process.env.GL_TOKEN;
+  if (envToken && tokenHost(envHost) === host) {
+    cachedTokens.set(host, envToken);
+    return envToken;
+  }
+
+  // fallback to glab cli
+  try {
+    // the host comes from the git remote or config, keep it out of a shell
+    const { stdout } = await execFileAsync('glab', ['config', 'get', 'token', '--host', host]);
+    const token = stdout.trim();
+
+    if (!token) {
+      throw new Error('glab returned no token');
+    }
+
+    cachedTokens.set(host, token);
+    return token;
+  } catch {
+    throw new Error(
+      `authentication required for ${host}. either:\n` +
+      `  1. set GITLAB_TOKEN or GL_TOKEN environment variable${host === DEFAULT_HOST ? '' : ` and GITLAB_HOST=${host}`}, or\n` +
+      `  2. install glab (https://gitlab.com/gitlab-org/cli) and run: glab auth login --hostname ${host}`
+    );
+  }
+}
+
+async function getApiUrl(): Promise<string> {
+  const config = await loadConfig();
+  const custom = process.env.ISSYNC_API_URL || config.api_url;
+  if (custom) {
+    return custom.replace(/\/+$/, '');
+  }
+
+  return `https://${await getCurrentHost()}/api/v4`;
+}
+
+async function request(
+  method: string,
+  path: string,
+  options: { query?: Record<string, string | number | undefined>; body?: unknown } = {}
+): Promise<{ data: any; headers: Headers }> {
+  const url = new URL(`${await getApiUrl()}${path}`);
+  for (const [key, value] of Object.entries(options.query || {})) {
+    if (value !== undefined) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+
+  return send(method, url, options.body, isIdempotent(method));
+}
+
+// graphql lives next to the rest api, at /api/graphql
+async function graphql(query: string, variables: Record<string, unknown>): Promise<any> {
+  const url = new URL(`${(await getApiUrl()).replace(/\/v4$/, '')}/graphql`);
+
+  // queries only read, so they're as safe to retry as a GET
+  const { data } = await send('POST', url, { query, variables }, true);
+  if (data?.errors?.length) {
+    throw new Error(data.errors.map((e: any) => e.message).join(', '));
+  }
+  return data.data;
+}
+
+async function send(method: string, url: URL, body: unknown, idempotent: boolean): Promise<{ data: any; headers: Headers }> {
+  const host = await getCurrentHost();
+  const headers: Record<string, string> = { 'content-type': 'application/json' };
+  try {
+    headers['private-token'] = await getGitLabToken(host);
+  } catch (error) {
+    // a local stand-in server doesn't need real credentials
+    if (!process.env.ISSYNC_API_URL && !(await loadConfig()).api_url) {
+      throw error;
+    }
+  }
+
+  return withRetry(async () => {
+    const response = await fetch(url, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+    noteRateLimit(response.headers);
+
+    const text = await response.text();
+
+    // proxies answer errors with html pages
+    if (!response.ok) {
+      let message = response.statusText;
+      try {
+        const data = JSON.parse(text);
+        if (data?.message) {
+          message = JSON.stringify(data.message);
+        }
+      } catch {
+        // not json, the status text will do
+      }
+
+      const error: any = new Error(`${method} ${url.pathname} returned ${response.status}: ${message}`);
+      error.status = response.status;
+      error.headers = response.headers;
+      throw error;
+    }
+
+    try {
+      return { data: text ? JSON.parse(text) : null, headers: response.headers };
+    } catch {
+      throw new Error(`${method} ${url.pathname} returned ${response.status} with a response that isn't json`);
+    }
+  }, `${method} ${url.pathname}`, idempotent);
+}
+
+async function paginate(path: string, query: Record<string, string | number | undefined> = {}): Promise<any[]> {
+  const results: any[] = [];
+  let page: string | null = '1';
+
+  while (page) {
+    const { data, headers } = await request('GET', path, { query: { ...query, per_page: 100, page } });
+    results.push(...data);
+    page = headers.get('x-next-page') || null;
+  }
+
+  return results;
+}
+
+// owner/group/project becomes the url-encoded project id
+function projectPath(repo: string): string {
+  return `/projects/${encodeURIComponent(repo)}`;
+}
+
+function toIssue(issue: any): Issue {
+  return {
+    number: issue.iid,
+    title: issue.title,
+    body: (issue.description || '').trim(),
+    state: issue.state === 'closed' ? 'closed' : 'open',
+    labels: issue.labels || [],
+    assignees: issue.assignees?.map((a: any) => a.username) || [],
+    milestone: issue.milestone?.title || null,
+    created_at: issue.created_at,
+    updated_at: issue.updated_at,
+    closed_at: issue.closed_at || null,
+    url: issue.web_url,
+    gitlab: {
+      weight: issue.weight ?? null,
+      due_date: issue.due_date || null,
+    },
+  };
+}
+
+function toMilestone(milestone: any): Milestone {
+  return {
+    number: milestone.id,
+    title: milestone.title,
+    state: milestone.state === 'closed' ? 'closed' : 'open',
+    description: milestone.description || null,
+    due_on: milestone.due_date || null,
+  };
+}
+
+function toLabel(label: any): Label {
+  return {
+    id: label.id,
+    name: label.name,
+    color: (label.color || '').replace(/^#/, '').toLowerCase(),
+    description: label.description || null,
+  };
+}
+
+function toComment(note: any): Comment {
+  return {
+    id: note.id,
+    author: note.author?.username || null,
+    body: (note.body || '').trim(),
+    created_at: note.created_at,
+    updated_at: note.updated_at,
+  };
+}
+
+async function findMilestoneId(repo: string, title: string): Promise<number> {
+  const milestones = await paginate(`${projectPath(repo)}/milestones`, { title });
+  const milestone = milestones.find(m => m.title === title);
+  if (!milestone) {
+    throw new Error(`milestone "${title}" does not exist in repo`);
+  }
+  return milestone.id;
+}
+
+async function findUserIds(usernames: string[]): Promise<number[]> {
+  const ids: number[] = [];
+
+  for (const username of usernames) {
+    if (!cachedUserIds.has(username)) {
+      const { data } = await request('GET', '/users', { query: { username } });
+      if (!data?.length) {
+        throw new Error(`user "${username}" does not exist`);
+      }
+      cachedUserIds.set(username, data[0].id);
+    }
+    ids.push(cachedUserIds.get(username)!);
+  }
+
+  return ids;
+}
+
+async function issueParams(repo: string, updates: IssueUpdate): Promise<Record<string, unknown>> {
+  const params: Record<string, unknown> = {};
+
+  if (updates.title !== undefined) {
+    params.title = updates.title;
+  }
+
+  if (updates.body !== undefined) {
+    params.description = updates.body;
+  }
+
+  if (updates.state !== undefined) {
+    params.state_event = updates.state === 'closed' ? 'close' : 'reopen';
+  }
+
+  if (updates.labels !== undefined) {
+    params.labels = updates.labels.join(',');
+  }
+
+  if (updates.assignees !== undefined) {
+    params.assignee_ids = await findUserIds(updates.assignees);
+  }
+
+  if (updates.milestone !== undefined) {
+    // 0 unassigns the milestone
+    params.milestone_id = updates.milestone === null
+      ? 0
+      : updates.milestone_number ?? await findMilestoneId(repo, updates.milestone);
+  }
+
+  if (updates.gitlab !== undefined) {
+    params.weight = updates.gitlab.weight;
+    params.due_date = updates.gitlab.due_date;
+  }
+
+  return params;
+}
+
+function milestoneParams(milestone: Milestone): Record<string, unknown> {
+  return {
+    title: milestone.title,
+    description: milestone.description || '',
+    due_date: milestone.due_on ? milestone.due_on.split('T')[0] : null,
+  };
+}
+
+async function unsupported(): Promise<never> {
+  throw new Error('projects are not supported on gitlab');
+}
+
+export const gitlabProvider: IssueProvider = {
+  name: 'gitlab',
+
+  getCurrentRepo,
+
+  async fetchIssues(repo, includeClosed = false, updatedSince) {
+    const issues = await paginate(`${projectPath(repo)}/issues`, {
+      state: includeClosed ? undefined : 'opened',
+      updated_after: updatedSince,
+      order_by: 'updated_at',
+      sort: 'desc',
+    });
+    return issues.map(toIssue);
+  },
+
+  async fetchIssue(repo, number) {
+    try {
+      const { data } = await request('GET', `${projectPath(repo)}/issues/${number}`);
+      return toIssue(data);
+    } catch (error: any) {
+      if (error.status === 404) {
+        return null;
+      }
+      throw new Error(`failed to fetch issue ${number}: ${error.message}`);
+    }
+  },
+
+  // iid and state only, a lot cheaper than listing every issue over rest
+  async fetchIssueStates(repo) {
+    const states = new Map<number, Issue['state']>();
+    let cursor: string | null = null;
+
+    try {
+      do {
+        const result = await graphql(
+          `query($path: ID!, $cursor: String) {
+            project(fullPath: $path) {
+              issues(first: 100, after: $cursor) {
+                nodes { iid state }
+                pageInfo { hasNextPage endCursor }
+              }
+            }
+          }`,
+          { path: repo, cursor }
+        );
+        if (!result?.project) {
+          throw new Error(`project ${repo} not found`);
+        }
+
+        const issues = result.project.issues;
+        for (const issue of issues.nodes) {
+          states.set(Number(issue.iid), issue.state === 'closed' ? 'closed' : 'open');
+        }
+        cursor = issues.pageInfo.hasNextPage ? issues.pageInfo.endCursor : null;
+      } while (cursor);
+    } catch (error: any) {
+      throw new Error(`failed to fetch issue states: ${error.message}`);
+    }
+
+    return states;
+  },
+
+  async updateIssue(repo, number, updates) {
+    const body = await issueParams(repo, updates);
+
+    try {
+      const { data } = await request('PUT', `${projectPath(repo)}/issues/${number}`, { body });
+      return toIssue(data);
+    } catch (error: any) {
+      throw new Error(`failed to update issue ${number}: ${error.message}`);
+    }
+  },
+
+  async createIssue(repo, issue) {
+    const body = await issueParams(repo, {
+      title: issue.title,
+      body: issue.body,
+      labels: issue.labels.length > 0 ? issue.labels : undefined,
+      assignees: issue.assignees.length > 0 ? issue.assignees : undefined,
+      milestone: issue.milestone || undefined,
+      milestone_number: issue.milestone_number,
+      gitlab: issue.gitlab,
+    });
+
+    try {
+      const { data } = await request('POST', `${projectPath(repo)}/issues`, { body });
+      return { issue: toIssue(data), nodeId: String(data.id) };
+    } catch (error: any) {
+      throw new Error(`failed to create issue: ${error.message}`);
+    }
+  },
+
+  async fetchMilestones(repo) {
+    const milestones = await paginate(`${projectPath(repo)}/milestones`);
+    return milestones.map(toMilestone);
+  },
+
+  async createMilestone(repo, milestone) {
+    try {
+      const { data } = await request('POST', `${projectPath(repo)}/milestones`, { body: milestoneParams(milestone) });
+      if (milestone.state === 'closed') {
+        return gitlabProvider.updateMilestone(repo, data.id, milestone);
+      }
+      return toMilestone(data);
+    } catch (error: any) {
+      throw new Error(`failed to create milestone "${milestone.title}": ${error.message}`);
+    }
+  },
+
+  async updateMilestone(repo, number, milestone) {
+    try {
+      const { data } = await request('PUT', `${projectPath(repo)}/milestones/${number}`, {
+        body: {
+          ...milestoneParams(milestone),
+          state_event: milestone.state === 'closed' ? 'close' : 'activate',
+        },
+      });
+      return toMilestone(data);
+    } catch (error: any) {
+      throw new Error(`failed to update milestone "${milestone.title}": ${error.message}`);
+    }
+  },
+
+  async fetchLabels(repo) {
+    const labels = await paginate(`${projectPath(repo)}/labels`);
+    return labels.map(toLabel);
+  },
+
+  async createLabel(repo, label) {
+    try {
+      const { data } = await request('POST', `${projectPath(repo)}/labels`, {
+        body: { name: label.name, color: `#${label.color}`, description: label.description || '' },
+      });
+      return toLabel(data);
+    } catch (error: any) {
+      throw new Error(`failed to create label "${label.name}": ${error.message}`);
+    }
+  },
+
+  async updateLabel(repo, currentName, label) {
+    try {
+      const { data } = await request('PUT', `${projectPath(repo)}/labels/${encodeURIComponent(currentName)}`, {
+        body: {
+          new_name: label.name !== currentName ? label.name : undefined,
+          color: `#${label.color}`,
+          description: label.description || '',
+        },
+      });
+      return toLabel(data);
+    } catch (error: any) {
+      throw new Error(`failed to update label "${currentName}": ${error.message}`);
+    }
+  },
+
+  async getViewerLogin() {
+    if (!cachedViewer) {
+      const { data } = await request('GET', '/user');
+      cachedViewer = data.username as string;
+    }
+    return cachedViewer;
+  },
+
+  // gitlab has no repo-wide notes endpoint, so go through the issues updated since
+  async fetchComments(repo, updatedSince) {
+    const issues = await paginate(`${projectPath(repo)}/issues`, { updated_after: updatedSince });
+    const byIssue = new Map<number, Comment[]>();
+
+    for (const issue of issues) {
+      const comments = (await gitlabProvider.fetchIssueComments(repo, issue.iid))
+        .filter(c => !updatedSince || (c.updated_at ?? '') >= updatedSince);
+      if (comments.length > 0) {
+        byIssue.set(issue.iid, comments);
+      }
+    }
+
+    return byIssue;
+  },
+
+  async fetchIssueComments(repo, number) {
+    const notes = await paginate(`${projectPath(repo)}/issues/${number}/notes`, {
+      sort: 'asc',
+      order_by: 'created_at',
+    });
+    // system notes are activity like label changes, not comments
+    return notes.filter(n => !n.system).map(toComment);
+  },
+
+  async createComment(repo, number, body) {
+    try {
+      const { data } = await request('POST', `${projectPath(repo)}/issues/${number}/notes`, { body: { body } });
+      return toComment(data);
+    } catch (error: any) {
+      throw new Error(`failed to comment on issue ${number}: ${error.message}`);
+    }
+  },
+
+  async updateComment(repo, number, id, body) {
+    try {
+      const { data } = await request('PUT', `${projectPath(repo)}/issues/${number}/notes/${id}`, { body: { body } });
+      return toComment(data);
+    } catch (error: any) {
+      throw new Error(`failed to update comment ${id}: ${error.message}`);
+    }
+  },
+
+  async getProjectConfig() {
+    return null;
+  },
+
+  getProjectFields: unsupported,
+  getProjectId: unsupported,
+  getProjectItems: unsupported,
+  addProjectItem: unsupported,
+  updateProjectField: unsupported,
+};
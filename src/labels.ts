@@ -0,0 +1,233 @@
+import { getProvider } from './provider.js';
+import {
+  loadLabels,
+  saveLabels,
+  loadAllLocalIssues,
+  saveIssue,
+  loadBase,
+  saveBase,
+  isLocallyModified,
+  contentHash,
+} from './storage.js';
+import type { Label, SyncState } from './types.js';
+
+const LABEL_FIELDS = ['name', 'color', 'description'] as const;
+
+function sameField(a: Label, b: Label, field: typeof LABEL_FIELDS[number]): boolean {
+  const normalise = (value: string | null) => (field === 'color' ? value?.toLowerCase() : value) || null;
+  return normalise(a[field]) === normalise(b[field]);
+}
+
+function sameLabel(a: Label, b: Label): boolean {
+  return LABEL_FIELDS.every(field => sameField(a, b, field));
+}
+
+function mergeLabel(base: Label, local: Label, remote: Label): { merged: Label; conflicts: string[] } {
+  const merged: Label = { ...remote };
+  const conflicts: string[] = [];
+
+  for (const field of LABEL_FIELDS) {
+    if (sameField(local, base, field)) continue;
+    if (!sameField(remote, base, field) && !sameField(local, remote, field)) {
+      conflicts.push(field);
+    }
+    (merged as any)[field] = local[field];
+  }
+
+  return { merged, conflicts };
+}
+
+// rewrite a renamed label in every local issue file and base snapshot
+export async function renameLabelLocally(oldName: string, newName: string, state: SyncState): Promise<number> {
+  let renamed = 0;
+
+  for (const issue of await loadAllLocalIssues()) {
+    if (!issue.labels.includes(oldName)) continue;
+
+    const syncInfo = state.issues[issue.number];
+    const wasModified = syncInfo ? await isLocallyModified(issue, syncInfo) : true;
+
+    issue.labels = [...new Set(issue.labels.map(l => (l === oldName ? newName : l)))];
+    await saveIssue(issue);
+    renamed++;
+
+    const base = await loadBase(issue.number);
+    if (base) {
+      base.labels = [...new Set(base.labels.map(l => (l === oldName ? newName : l)))];
+      await saveBase(base);
+    }
+
+    // the rename alone isn't a local change
+    if (syncInfo) {
+      if (base) {
+        syncInfo.content_hash = contentHash(base);
+      } else if (!wasModified) {
+        syncInfo.content_hash = contentHash(issue);
+      }
+    }
+  }
+
+  if (renamed > 0) {
+    console.log(`renamed label "${oldName}" to "${newName}" in ${renamed} local issue(s)`);
+  }
+
+  return renamed;
+}
+
+// mirror repository labels to labels.yml, keeping local edits that haven't been pushed.
+// `known` is the remote list when the caller already has it, e.g. from a webhook
+export async function pullLabels(repo: string, state: SyncState, known?: Label[]): Promise<void> {
+  const remote = known ?? await (await getProvider()).fetchLabels(repo);
+  const local = await loadLabels();
+  const base = new Map((state.labels || []).map(l => [l.id, l]));
+
+  // labels renamed on github since the last sync
+  for (const r of remote) {
+    const b = base.get(r.id);
+    if (b && b.name !== r.name) {
+      await renameLabelLocally(b.name, r.name, state);
+    }
+  }
+
+  let result = remote;
+  if (local) {
+    const localById = new Map(local.filter(l => l.id !== undefined).map(l => [l.id, l]));
+    let kept = 0;
+
+    result = remote.map(r => {
+      const l = localById.get(r.id);
+      const b = base.get(r.id);
+      if (!l || !b || sameLabel(l, b)) {
+        return r;
+      }
+
+      const { merged, conflicts } = mergeLabel(b, l, r);
+      if (conflicts.length > 0) {
+        console.log(`⚠ conflict in label "${l.name}" (${conflicts.join(', ')}), keeping local version`);
+      }
+      kept++;
+      return merged;
+    });
+
+    // labels added locally that haven't been created yet
+    result.push(...local.filter(l => l.id === undefined));
+
+    if (kept > 0) {
+      console.log(`${kept} label(s) with local changes kept`);
+    }
+  }
+
+  await saveLabels(result);
+  state.labels = remote;
+}
+
+// labels.yml has labels to create or edits to push, going by the last sync
+export async function hasLabelChanges(state: SyncState): Promise<boolean> {
+  const local = await loadLabels();
+  const base = new Map((state.labels || []).map(l => [l.id, l]));
+  return !!local?.some(l => {
+    const b = base.get(l.id);
+    return l.id === undefined || (b !== undefined && !sameLabel(l, b));
+  });
+}
+
+// push created and edited labels from labels.yml, returning the names of
+// every label issues can use
+export async function pushLabels(repo: string, state: SyncState, dryRun: boolean = false): Promise<Set<string>> {
+  const provider = await getProvider();
+  const remote = await provider.fetchLabels(repo);
+  const local = await loadLabels();
+  const names = new Set(remote.map(l => l.name));
+
+  if (!local) {
+    return names;
+  }
+
+  const base = new Map((state.labels || []).map(l => [l.id, l]));
+  const remoteById = new Map(remote.map(l => [l.id, l]));
+  const remoteByName = new Map(remote.map(l => [l.name, l]));
+  let changed = false;
+
+  for (const [idx, label] of local.entries()) {
+    if (label.id === undefined) {
+      const existing = remoteByName.get(label.name);
+      if (existing) {
+        console.log(`label "${label.name}" already exists on github`);
+        local[idx] = existing;
+        changed = true;
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`would create label "${label.name}"`);
+        names.add(label.name);
+        continue;
+      }
+
+      const created = await provider.createLabel(repo, label);
+      console.log(`created label "${created.name}"`);
+      local[idx] = created;
+      remote.push(created);
+      names.add(created.name);
+      changed = true;
+      continue;
+    }
+
+    const r = remoteById.get(label.id);
+    if (!r) {
+      console.log(`label "${label.name}" not found on github (skipping)`);
+      continue;
+    }
+
+    const b = base.get(label.id);
+    if (sameLabel(label, b ?? r)) {
+      continue;
+    }
+
+    let target = label;
+    if (b && !sameLabel(r, b)) {
+      const { merged, conflicts } = mergeLabel(b, label, r);
+      if (conflicts.length > 0) {
+        console.log(`⚠ conflict in label "${label.name}" (${conflicts.join(', ')}), run \`issync down\` first`);
+        continue;
+      }
+      target = merged;
+    }
+
+    if (dryRun) {
+      console.log(target.name !== r.name
+        ? `would rename label "${r.name}" to "${target.name}"`
+        : `would update label "${target.name}"`);
+      names.add(target.name);
+      continue;
+    }
+
+    const updated = await provider.updateLabel(repo, r.name, target);
+    console.log(`updated label "${updated.name}"`);
+    local[idx] = updated;
+    remote[remote.indexOf(r)] = updated;
+    names.delete(r.name);
+    names.add(updated.name);
+    changed = true;
+
+    if (updated.name !== r.name) {
+      await renameLabelLocally(r.name, updated.name, state);
+    }
+  }
+
+  const localIds = new Set(local.map(l => l.id));
+  for (const l of state.labels || []) {
+    if (!localIds.has(l.id)) {
+      console.log(`label "${l.name}" was removed from labels.yml, deleting isn't synced`);
+    }
+  }
+
+  if (!dryRun) {
+    if (changed) {
+      await saveLabels(local);
+    }
+    state.labels = remote;
+  }
+
+  return names;
+}
@@ -0,0 +1,379 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { dirname } from 'path';
+import { getCurrentRepo } from './client.js';
+import type { IssueProvider } from './provider.js';
+import type {
+  Issue,
+  Comment,
+  Label,
+  Milestone,
+  ProjectField,
+  ProjectFieldValue,
+  ProjectItem,
+} from './types.js';
+
+export interface MemoryProject {
+  id: string;
+  number: number;
+  owner: string;
+  fields: ProjectField[];
+  // project items by issue number
+  items: Record<number, { id: string; values: Record<string, ProjectFieldValue> }>;
+}
+
+export interface MemoryData {
+  repo?: string;
+  viewer?: string;
+  issues: Issue[];
+  milestones: Milestone[];
+  labels: Label[];
+  comments: Record<number, Comment[]>;
+  project?: MemoryProject;
+  // issues gone from the repo: where they were transferred to, or null if deleted
+  removed?: Record<number, { repo: string; number: number } | null>;
+}
+
+function emptyData(): MemoryData {
+  return { issues: [], milestones: [], labels: [], comments: {} };
+}
+
+function now(): string {
+  return new Date().toISOString();
+}
+
+function nextId(ids: (number | undefined)[]): number {
+  return Math.max(0, ...ids.map(id => id ?? 0)) + 1;
+}
+
+// a remote that lives in memory, optionally persisted to a json file so
+// state carries over between runs. handy for trying out sync offline and
+// as a reference for writing other providers
+export function createMemoryProvider(options: { path?: string; data?: MemoryData } = {}): IssueProvider {
+  let data: MemoryData | null = options.data ?? null;
+
+  async function load(): Promise<MemoryData> {
+    if (data) {
+      return data;
+    }
+
+    if (options.path) {
+      try {
+        data = { ...emptyData(), ...JSON.parse(await readFile(options.path, 'utf-8')) };
+        return data!;
+      } catch (error: any) {
+        if (error.code !== 'ENOENT') {
+          throw new Error(`failed to load ${options.path}: ${error.message}`);
+        }
+      }
+    }
+
+    data = emptyData();
+    return data;
+  }
+
+  async function save(): Promise<void> {
+    if (!options.path || !data) {
+      return;
+    }
+
+    await mkdir(dirname(options.path), { recursive: true });
+    await writeFile(options.path, JSON.stringify(data, null, 2), 'utf-8');
+  }
+
+  async function findIssue(number: number): Promise<Issue> {
+    const issue = (await load()).issues.find(i => i.number === number);
+    if (!issue) {
+      throw new Error(`issue ${number} does not exist`);
+    }
+    return issue;
+  }
+
+  async function findProject(projectId: string): Promise<MemoryProject> {
+    const { project } = await load();
+    if (!project || project.id !== projectId) {
+      throw new Error(`project ${projectId} does not exist`);
+    }
+    return project;
+  }
+
+  // like github, unknown labels are created on the fly
+  function addMissingLabels(store: MemoryData, labels: string[]): void {
+    for (const name of labels) {
+      if (!store.labels.some(l => l.name === name)) {
+        store.labels.push({ id: nextId(store.labels.map(l => l.id)), name, color: 'ededed', description: null });
+      }
+    }
+  }
+
+  function checkMilestone(store: MemoryData, title: string | null | undefined): void {
+    if (title && !store.milestones.some(m => m.title === title)) {
+      throw new Error(`milestone "${title}" does not exist in repo`);
+    }
+  }
+
+  // callers are free to mutate what they get back
+  const copy = <T>(value: T): T => structuredClone(value);
+
+  return {
+    name: 'memory',
+
+    async getCurrentRepo() {
+      return (await load()).repo ?? getCurrentRepo();
+    },
+
+    async fetchIssues(repo, includeClosed = false, updatedSince) {
+      const { issues } = await load();
+      return copy(issues
+        .filter(i => includeClosed || i.state === 'open')
+        .filter(i => !updatedSince || i.updated_at >= updatedSince)
+        .sort((a, b) => b.updated_at.localeCompare(a.updated_at)));
+    },
+
+    async fetchIssue(repo, number) {
+      const issue = (await load()).issues.find(i => i.number === number);
+      return issue ? copy(issue) : null;
+    },
+
+    async locateIssue(repo, number) {
+      const { issues, removed } = await load();
+      const issue = issues.find(i => i.number === number);
+      if (issue) {
+        return { status: 'found', issue: copy(issue) };
+      }
+
+      if (!removed || !(number in removed)) {
+        return { status: 'missing' };
+      }
+      const target = removed[number];
+      return target ? { status: 'transferred', ...target } : { status: 'deleted' };
+    },
+
+    async updateIssue(repo, number, { state_reason, milestone_number, ...updates }) {
+      const store = await load();
+      const issue = await findIssue(number);
+
+      checkMilestone(store, updates.milestone);
+      if (updates.labels) {
+        addMissingLabels(store, updates.labels);
+      }
+
+      if (updates.state !== undefined && updates.state !== issue.state) {
+        issue.closed_at = updates.state === 'closed' ? now() : null;
+      }
+      Object.assign(issue, updates, { updated_at: now() });
+
+      await save();
+      return copy(issue);
+    },
+
+    async createIssue(repo, newIssue) {
+      const store = await load();
+      checkMilestone(store, newIssue.milestone);
+      addMissingLabels(store, newIssue.labels);
+
+      const number = nextId(store.issues.map(i => i.number));
+      const timestamp = now();
+      const issue: Issue = {
+        number,
+        title: newIssue.title,
+        body: newIssue.body,
+        state: 'open',
+        labels: newIssue.labels,
+        assignees: newIssue.assignees,
+        milestone: newIssue.milestone,
+        created_at: timestamp,
+        updated_at: timestamp,
+        closed_at: null,
+        url: `memory://${repo}/issues/${number}`,
+      };
+      store.issues.push(issue);
+
+      await save();
+      return { issue: copy(issue), nodeId: `issue:${number}` };
+    },
+
+    async fetchMilestones() {
+      return copy((await load()).milestones);
+    },
+
+    async createMilestone(repo, milestone) {
+      const store = await load();
+      const created = { ...milestone, number: nextId(store.milestones.map(m => m.number)) };
+      store.milestones.push(created);
+
+      await save();
+      return copy(created);
+    },
+
+    async updateMilestone(repo, number, milestone) {
+      const store = await load();
+      const idx = store.milestones.findIndex(m => m.number === number);
+      if (idx === -1) {
+        throw new Error(`milestone ${number} does not exist`);
+      }
+
+      const previous = store.milestones[idx].title;
+      store.milestones[idx] = { ...milestone, number };
+      for (const issue of store.issues) {
+        if (issue.milestone === previous) {
+          issue.milestone = milestone.title;
+        }
+      }
+
+      await save();
+      return copy(store.milestones[idx]);
+    },
+
+    async fetchLabels() {
+      return copy((await load()).labels);
+    },
+
+    async createLabel(repo, label) {
+      const store = await load();
+      if (store.labels.some(l => l.name === label.name)) {
+        throw new Error(`label "${label.name}" already exists`);
+      }
+
+      const created = { ...label, id: nextId(store.labels.map(l => l.id)) };
+      store.labels.push(created);
+
+      await save();
+      return copy(created);
+    },
+
+    async updateLabel(repo, currentName, label) {
+      const store = await load();
+      const existing = store.labels.find(l => l.name === currentName);
+      if (!existing) {
+        throw new Error(`label "${currentName}" does not exist`);
+      }
+
+      Object.assign(existing, { name: label.name, color: label.color, description: label.description });
+      for (const issue of store.issues) {
+        issue.labels = issue.labels.map(l => (l === currentName ? label.name : l));
+      }
+
+      await save();
+      return copy(existing);
+    },
+
+    async getViewerLogin() {
+      return (await load()).viewer ?? 'issync';
+    },
+
+    async fetchComments(repo, updatedSince) {
+      const { comments } = await load();
+      const byIssue = new Map<number, Comment[]>();
+
+      for (const [number, list] of Object.entries(comments)) {
+        const updated = list.filter(c => !updatedSince || (c.updated_at ?? '') >= updatedSince);
+        if (updated.length > 0) {
+          byIssue.set(Number(number), copy(updated));
+        }
+      }
+
+      return byIssue;
+    },
+
+    async fetchIssueComments(repo, number) {
+      return copy((await load()).comments[number] ?? []);
+    },
+
+    async createComment(repo, number, body) {
+      const store = await load();
+      await findIssue(number);
+
+      const timestamp = now();
+      const comment: Comment = {
+        id: nextId(Object.values(store.comments).flat().map(c => c.id)),
+        author: store.viewer ?? 'issync',
+        body,
+        created_at: timestamp,
+        updated_at: timestamp,
+      };
+      (store.comments[number] ??= []).push(comment);
+
+      await save();
+      return copy(comment);
+    },
+
+    async updateComment(repo, number, id, body) {
+      const comment = (await load()).comments[number]?.find(c => c.id === id);
+      if (!comment) {
+        throw new Error(`comment ${id} does not exist`);
+      }
+
+      comment.body = body;
+      comment.updated_at = now();
+
+      await save();
+      return copy(comment);
+    },
+
+    async getProjectConfig() {
+      const { project } = await load();
+      return project ? { project_number: project.number, owner: project.owner, enabled: true } : null;
+    },
+
+    async getProjectFields() {
+      const { project } = await load();
+      if (!project) {
+        throw new Error('no project configured');
+      }
+      return copy(project.fields);
+    },
+
+    async getProjectId() {
+      const { project } = await load();
+      if (!project) {
+        throw new Error('no project configured');
+      }
+      return project.id;
+    },
+
+    async getProjectItems(projectConfig, repo, issueNumbers) {
+      const { project } = await load();
+      const items = new Map<number, ProjectItem>();
+
+      for (const number of issueNumbers) {
+        const item = project?.items[number];
+        if (item) {
+          items.set(number, {
+            id: item.id,
+            content: { number },
+            ...copy(item.values),
+          });
+        }
+      }
+
+      return items;
+    },
+
+    async addProjectItem(projectId, contentId) {
+      const project = await findProject(projectId);
+      const number = parseInt(contentId.split(':')[1], 10);
+      await findIssue(number);
+
+      project.items[number] ??= { id: `item:${number}`, values: {} };
+
+      await save();
+      return project.items[number].id;
+    },
+
+    async updateProjectField(projectId, itemId, field, value) {
+      const project = await findProject(projectId);
+      const item = Object.values(project.items).find(i => i.id === itemId);
+      if (!item) {
+        throw new Error(`project item ${itemId} does not exist`);
+      }
+
+      if (value !== null && field.options && !field.options.some(o => o.name === value)) {
+        throw new Error(`unknown option "${value}" for field "${field.name}"`);
+      }
+
+      item.values[field.name] = value;
+
+      await save();
+    },
+  };
+}
@@ -0,0 +1,164 @@
+import { mergeText } from './diff.js';
+import type { Issue, GitLabFields, ProjectFieldValue } from './types.js';
+
+export interface FieldConflict {
+  field: string;
+  base: unknown;
+  local: unknown;
+  remote: unknown;
+}
+
+export const GITLAB_FIELDS = ['weight', 'due_date'] as const;
+
+export interface MergeResult {
+  merged: Issue;
+  conflicts: FieldConflict[];
+}
+
+export function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+export function sameSet(a: string[], b: string[]): boolean {
+  const setA = new Set(a);
+  const setB = new Set(b);
+  return setA.size === setB.size && [...setA].every(v => setB.has(v));
+}
+
+// fields that differ between two versions of an issue
+export function changedFields(from: Issue, to: Issue): string[] {
+  const changed: string[] = [];
+
+  if (from.title !== to.title) changed.push('title');
+  if (from.state !== to.state) changed.push('state');
+  if (!sameSet(from.labels, to.labels)) changed.push('labels');
+  if (!sameSet(from.assignees, to.assignees)) changed.push('assignees');
+  if (!sameValue(from.milestone, to.milestone)) changed.push('milestone');
+  if (from.body !== to.body) changed.push('body');
+
+  const fieldNames = new Set([
+    ...Object.keys(from.project_fields || {}),
+    ...Object.keys(to.project_fields || {}),
+  ]);
+  for (const name of fieldNames) {
+    if (!sameValue(from.project_fields?.[name], to.project_fields?.[name])) {
+      changed.push(`project_fields.${name}`);
+    }
+  }
+
+  if (from.gitlab || to.gitlab) {
+    for (const name of GITLAB_FIELDS) {
+      if (!sameValue(from.gitlab?.[name], to.gitlab?.[name])) {
+        changed.push(`gitlab.${name}`);
+      }
+    }
+  }
+
+  return changed;
+}
+
+function mergeScalar<T>(
+  field: string,
+  base: T,
+  local: T,
+  remote: T,
+  conflicts: FieldConflict[]
+): T {
+  if (sameValue(local, base)) return remote;
+  if (sameValue(remote, base) || sameValue(local, remote)) return local;
+
+  conflicts.push({ field, base, local, remote });
+  return local;
+}
+
+function mergeSet(base: string[], local: string[], remote: string[]): string[] {
+  const baseSet = new Set(base);
+  const localSet = new Set(local);
+  const remoteSet = new Set(remote);
+
+  const removed = new Set([
+    ...base.filter(v => !localSet.has(v)),
+    ...base.filter(v => !remoteSet.has(v)),
+  ]);
+
+  const merged: string[] = [];
+  for (const value of [...remote, ...local]) {
+    if (merged.includes(value)) continue;
+    if (baseSet.has(value) && removed.has(value)) continue;
+    merged.push(value);
+  }
+
+  return merged;
+}
+
+export function mergeIssue(base: Issue, local: Issue, remote: Issue): MergeResult {
+  const conflicts: FieldConflict[] = [];
+
+  const body = mergeText(base.body, local.body, remote.body);
+  if (body.conflicts > 0) {
+    conflicts.push({ field: 'body', base: base.body, local: local.body, remote: remote.body });
+  }
+
+  const merged: Issue = {
+    ...remote,
+    title: mergeScalar('title', base.title, local.title, remote.title, conflicts),
+    body: body.text,
+    state: mergeScalar('state', base.state, local.state, remote.state, conflicts),
+    labels: mergeSet(base.labels, local.labels, remote.labels),
+    assignees: mergeSet(base.assignees, local.assignees, remote.assignees),
+    milestone: mergeScalar('milestone', base.milestone, local.milestone, remote.milestone, conflicts),
+  };
+
+  // the rest api doesn't return project fields, so a remote without them
+  // is treated as unchanged rather than cleared
+  const baseFields = base.project_fields || {};
+  const localFields = local.project_fields || {};
+  const remoteFields = remote.project_fields ?? baseFields;
+
+  const fieldNames = new Set([
+    ...Object.keys(baseFields),
+    ...Object.keys(localFields),
+    ...Object.keys(remoteFields),
+  ]);
+
+  const projectFields: Record<string, ProjectFieldValue> = {};
+  for (const name of fieldNames) {
+    const value = mergeScalar(
+      `project_fields.${name}`,
+      baseFields[name] ?? null,
+      localFields[name] ?? null,
+      remoteFields[name] ?? null,
+      conflicts
+    );
+
+    // keep explicit nulls only if one side still lists the field
+    if (value !== null || name in localFields || name in remoteFields) {
+      projectFields[name] = value;
+    }
+  }
+
+  if (Object.keys(projectFields).length > 0) {
+    merged.project_fields = projectFields;
+  } else {
+    delete merged.project_fields;
+  }
+
+  // same for the gitlab block, a remote without it is unchanged
+  if (base.gitlab || local.gitlab || remote.gitlab) {
+    const baseGitlab = base.gitlab;
+    const remoteGitlab = remote.gitlab ?? baseGitlab;
+    const gitlab = {} as GitLabFields;
+    for (const name of GITLAB_FIELDS) {
+      (gitlab as any)[name] = mergeScalar(
+        `gitlab.${name}`,
+        baseGitlab?.[name] ?? null,
+        local.gitlab?.[name] ?? null,
+        remoteGitlab?.[name] ?? null,
+        conflicts
+      );
+    }
+    merged.gitlab = gitlab;
+  }
+
+  return { merged, conflicts };
+}
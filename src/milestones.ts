@@ -0,0 +1,178 @@
+import { getProvider } from './provider.js';
+import { loadMilestones, saveMilestones } from './storage.js';
+import type { Milestone, SyncState } from './types.js';
+
+const MILESTONE_FIELDS = ['title', 'state', 'description', 'due_on'] as const;
+
+function sameField(a: Milestone, b: Milestone, field: typeof MILESTONE_FIELDS[number]): boolean {
+  return (a[field] || null) === (b[field] || null);
+}
+
+function sameMilestone(a: Milestone, b: Milestone): boolean {
+  return MILESTONE_FIELDS.every(field => sameField(a, b, field));
+}
+
+function mergeMilestone(base: Milestone, local: Milestone, remote: Milestone): { merged: Milestone; conflicts: string[] } {
+  const merged: Milestone = { ...remote };
+  const conflicts: string[] = [];
+
+  for (const field of MILESTONE_FIELDS) {
+    if (sameField(local, base, field)) continue;
+    if (!sameField(remote, base, field) && !sameField(local, remote, field)) {
+      conflicts.push(field);
+    }
+    (merged as any)[field] = local[field];
+  }
+
+  return { merged, conflicts };
+}
+
+// mirror github milestones to milestones.yml, keeping local edits that haven't been pushed.
+// `known` is the remote list when the caller already has it, e.g. from a webhook
+export async function pullMilestones(repo: string, state: SyncState, known?: Milestone[]): Promise<void> {
+  const remote = known ?? await (await getProvider()).fetchMilestones(repo);
+  const local = await loadMilestones();
+  const base = new Map((state.milestones || []).map(m => [m.number, m]));
+
+  let result = remote;
+  if (local) {
+    const localByNumber = new Map(local.filter(m => m.number !== undefined).map(m => [m.number, m]));
+    let kept = 0;
+
+    result = remote.map(r => {
+      const l = localByNumber.get(r.number);
+      const b = base.get(r.number);
+      if (!l || !b || sameMilestone(l, b)) {
+        return r;
+      }
+
+      const { merged, conflicts } = mergeMilestone(b, l, r);
+      if (conflicts.length > 0) {
+        console.log(`⚠ conflict in milestone "${l.title}" (${conflicts.join(', ')}), keeping local version`);
+      }
+      kept++;
+      return merged;
+    });
+
+    // milestones drafted locally that haven't been created yet
+    result.push(...local.filter(m => m.number === undefined));
+
+    if (kept > 0) {
+      console.log(`${kept} milestone(s) with local changes kept`);
+    }
+  }
+
+  await saveMilestones(result);
+  state.milestones = remote;
+}
+
+// milestones.yml has milestones to create or edits to push, going by the last sync
+export async function hasMilestoneChanges(state: SyncState): Promise<boolean> {
+  const local = await loadMilestones();
+  const base = new Map((state.milestones || []).map(m => [m.number, m]));
+  return !!local?.some(m => {
+    const b = base.get(m.number);
+    return m.number === undefined || (b !== undefined && !sameMilestone(m, b));
+  });
+}
+
+// push created, edited and closed milestones from milestones.yml, returning
+// the title of every milestone issues can refer to with its number (unknown
+// for milestones a dry run would create)
+export async function pushMilestones(
+  repo: string,
+  state: SyncState,
+  dryRun: boolean = false
+): Promise<Map<string, number | undefined>> {
+  const provider = await getProvider();
+  const remote = await provider.fetchMilestones(repo);
+  const local = await loadMilestones();
+  const titles = new Map(remote.map(m => [m.title, m.number]));
+
+  if (!local) {
+    return titles;
+  }
+
+  const base = new Map((state.milestones || []).map(m => [m.number, m]));
+  const remoteByNumber = new Map(remote.map(m => [m.number, m]));
+  const remoteByTitle = new Map(remote.map(m => [m.title, m]));
+  let changed = false;
+
+  for (const [idx, milestone] of local.entries()) {
+    if (milestone.number === undefined) {
+      const existing = remoteByTitle.get(milestone.title);
+      if (existing) {
+        console.log(`milestone "${milestone.title}" already exists on github as #${existing.number}`);
+        local[idx] = existing;
+        changed = true;
+        continue;
+      }
+
+      if (dryRun) {
+        console.log(`would create milestone "${milestone.title}"`);
+        titles.set(milestone.title, undefined);
+        continue;
+      }
+
+      const created = await provider.createMilestone(repo, milestone);
+      console.log(`created milestone "${created.title}" (#${created.number})`);
+      local[idx] = created;
+      remote.push(created);
+      titles.set(created.title, created.number);
+      changed = true;
+      continue;
+    }
+
+    const r = remoteByNumber.get(milestone.number);
+    if (!r) {
+      console.log(`milestone #${milestone.number} "${milestone.title}" not found on github (skipping)`);
+      continue;
+    }
+
+    const b = base.get(milestone.number);
+    if (sameMilestone(milestone, b ?? r)) {
+      continue;
+    }
+
+    let target = milestone;
+    if (b && !sameMilestone(r, b)) {
+      const { merged, conflicts } = mergeMilestone(b, milestone, r);
+      if (conflicts.length > 0) {
+        console.log(`⚠ conflict in milestone "${milestone.title}" (${conflicts.join(', ')}), run \`issync down\` first`);
+        continue;
+      }
+      target = merged;
+    }
+
+    const action = target.state === 'closed' && r.state === 'open' ? 'close' : 'update';
+    if (dryRun) {
+      console.log(`would ${action} milestone "${target.title}"`);
+      titles.set(target.title, milestone.number);
+      continue;
+    }
+
+    const updated = await provider.updateMilestone(repo, milestone.number, target);
+    console.log(`${action === 'close' ? 'closed' : 'updated'} milestone "${updated.title}"`);
+    local[idx] = updated;
+    remote[remote.indexOf(r)] = updated;
+    titles.delete(r.title);
+    titles.set(updated.title, updated.number);
+    changed = true;
+  }
+
+  const localNumbers = new Set(local.map(m => m.number));
+  for (const m of state.milestones || []) {
+    if (!localNumbers.has(m.number)) {
+      console.log(`milestone "${m.title}" was removed from milestones.yml, deleting isn't synced (set state: closed instead)`);
+    }
+  }
+
+  if (!dryRun) {
+    if (changed) {
+      await saveMilestones(local);
+    }
+    state.milestones = remote;
+  }
+
+  return titles;
+}
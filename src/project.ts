@@ -1,5 +1,7 @@
+import { join } from 'path';
 import { getGraphqlClient } from './client.js';
-import type { ProjectField, ProjectItem, ProjectConfig } from './types.js';
+import { loadConfig, saveConfig, getStorageRoot } from './storage.js';
+import type { Issue, ProjectField, ProjectFieldValue, ProjectItem, ProjectConfig } from './types.js';
 
 export async function detectProjectForRepo(owner: string, repo: string): Promise<ProjectConfig | null> {
   try {
@@ -46,17 +48,10 @@ export async function detectProjectForRepo(owner: string, repo: string): Promise
 }
 
 export async function getOrCreateProjectConfig(owner: string, repo: string): Promise<ProjectConfig | null> {
-  const { readFile, writeFile } = await import('fs/promises');
-
   // check if user has configured a project
-  try {
-    const configData = await readFile('.issync/config.json', 'utf-8');
-    const config = JSON.parse(configData);
-    if (config.project) {
-      return config.project;
-    }
-  } catch {
-    // no config file yet
+  const config = await loadConfig();
+  if (config.project) {
+    return config.project;
   }
 
   // try to auto-detect
@@ -88,9 +83,8 @@ export async function getOrCreateProjectConfig(owner: string, repo: string): Pro
 
     // save it for next time
     try {
-      const config = { project: detected };
-      await writeFile('.issync/config.json', JSON.stringify(config, null, 2), 'utf-8');
-      console.log('saved project config to .issync/config.json');
+      await saveConfig({ ...config, project: detected });
+      console.log(`saved project config to ${join(getStorageRoot(), 'config.json')}`);
     } catch (error) {
       console.warn(`warning: failed to save config: ${error}`);
     }
@@ -195,6 +189,94 @@ export async function getProjectFields(
   }
 }
 
+// field values of a project item, shared by every query that reads items
+const PROJECT_ITEMS_FRAGMENT = `
+  fragment issueProjectItems on Issue {
+    projectItems(first: 10) {
+      nodes {
+        id
+        project {
+          number
+        }
+        fieldValues(first: 20) {
+          nodes {
+            ... on ProjectV2ItemFieldSingleSelectValue {
+              name
+              field {
+                ... on ProjectV2SingleSelectField {
+                  name
+                }
+              }
+            }
+            ... on ProjectV2ItemFieldTextValue {
+              text
+              field {
+                ... on ProjectV2Field {
+                  name
+                }
+              }
+            }
+            ... on ProjectV2ItemFieldDateValue {
+              date
+              field {
+                ... on ProjectV2Field {
+                  name
+                }
+              }
+            }
+            ... on ProjectV2ItemFieldNumberValue {
+              number
+              field {
+                ... on ProjectV2Field {
+                  name
+                }
+              }
+            }
+            ... on ProjectV2ItemFieldIterationValue {
+              title
+              field {
+                ... on ProjectV2IterationField {
+                  name
+                }
+              }
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// the item for our project, with field values flattened to the top level
+function toProjectItem(issueData: any, projectNumber: number, repoName: string): ProjectItem | null {
+  const projectItem = issueData.projectItems?.nodes?.find(
+    (item: any) => item.project?.number === projectNumber
+  );
+
+  if (!projectItem) {
+    return null;
+  }
+
+  const converted: any = {
+    id: projectItem.id,
+    content: {
+      number: issueData.number,
+      repository: { name: repoName }
+    }
+  };
+
+  // extract field values
+  for (const fieldValue of projectItem.fieldValues?.nodes || []) {
+    if (!fieldValue.field?.name) continue;
+
+    const fieldName = fieldValue.field.name;
+    const value = fieldValue.name || fieldValue.text || fieldValue.date || fieldValue.number || fieldValue.title || null;
+    converted[fieldName] = value;
+  }
+
+  return converted;
+}
+
 export async function getProjectItemsForIssues(
   projectNumber: number,
   owner: string,
@@ -202,7 +284,7 @@ export async function getProjectItemsForIssues(
   repoName: string,
   issueNumbers: number[]
 ): Promise<Map<number, ProjectItem>> {
-  // fetch project items for specific issues using their node ids
+  // fetch project items for specific issues, batched into aliased lookups
   // this is much more efficient than fetching all project items
 
   const itemsMap = new Map<number, ProjectItem>();
@@ -212,105 +294,32 @@ export async function getProjectItemsForIssues(
   for (let i = 0; i < issueNumbers.length; i += batchSize) {
     const batch = issueNumbers.slice(i, i + batchSize);
 
-    // build query to fetch multiple issues and their project items
-    const issueQueries = batch.map((num, idx) => `
-      issue${idx}: repository(owner: "${repoOwner}", name: "${repoName}") {
-        issue(number: ${num}) {
-          id
-          number
-          projectItems(first: 10) {
-            nodes {
-              id
-              project {
-                number
-              }
-              fieldValues(first: 20) {
-                nodes {
-                  ... on ProjectV2ItemFieldSingleSelectValue {
-                    name
-                    field {
-                      ... on ProjectV2SingleSelectField {
-                        name
-                      }
-                    }
-                  }
-                  ... on ProjectV2ItemFieldTextValue {
-                    text
-                    field {
-                      ... on ProjectV2Field {
-                        name
-                      }
-                    }
-                  }
-                  ... on ProjectV2ItemFieldDateValue {
-                    date
-                    field {
-                      ... on ProjectV2Field {
-                        name
-                      }
-                    }
-                  }
-                  ... on ProjectV2ItemFieldNumberValue {
-                    number
-                    field {
-                      ... on ProjectV2Field {
-                        name
-                      }
-                    }
-                  }
-                  ... on ProjectV2ItemFieldIterationValue {
-                    title
-                    field {
-                      ... on ProjectV2IterationField {
-                        name
-                      }
-                    }
-                  }
-                }
-              }
-            }
-          }
-        }
+    const params = batch.map((_, idx) => `$n${idx}: Int!`).join(', ');
+    const issueQueries = batch.map((_, idx) => `issue${idx}: issue(number: $n${idx}) { number ...issueProjectItems }`).join('\n');
+    const query = `query($owner: String!, $name: String!, ${params}) {
+      repository(owner: $owner, name: $name) {
+        ${issueQueries}
       }
-    `).join('\n');
+    }
+    ${PROJECT_ITEMS_FRAGMENT}`;
 
-    const query = `query { ${issueQueries} }`;
+    const variables: Record<string, string | number> = { owner: repoOwner, name: repoName };
+    batch.forEach((num, idx) => {
+      variables[`n${idx}`] = num;
+    });
 
     try {
       const graphqlClient = await getGraphqlClient();
-      const result: any = await graphqlClient(query);
+      const result: any = await graphqlClient(query, variables);
 
       // process each issue in the batch
       batch.forEach((issueNum, idx) => {
-        const issueData = result?.[`issue${idx}`]?.issue;
+        const issueData = result?.repository?.[`issue${idx}`];
         if (!issueData) return;
 
-        // find project item matching our project number
-        const projectItem = issueData.projectItems?.nodes?.find(
-          (item: any) => item.project?.number === projectNumber
-        );
-
-        if (projectItem) {
-          const converted: any = {
-            id: projectItem.id,
-            content: {
-              number: issueNum,
-              repository: { name: repoName }
-            }
-          };
-
-          // extract field values
-          if (projectItem.fieldValues?.nodes) {
-            for (const fieldValue of projectItem.fieldValues.nodes) {
-              if (!fieldValue.field?.name) continue;
-
-              const fieldName = fieldValue.field.name;
-              const value = fieldValue.name || fieldValue.text || fieldValue.date || fieldValue.number || fieldValue.title || null;
-              converted[fieldName] = value;
-            }
-          }
-
-          itemsMap.set(issueNum, converted);
+        const item = toProjectItem(issueData, projectNumber, repoName);
+        if (item) {
+          itemsMap.set(issueNum, item);
         }
       });
     } catch (error: any) {
@@ -321,6 +330,99 @@ export async function getProjectItemsForIssues(
   return itemsMap;
 }
 
+// every issue (optionally only those updated since a time) with its node id and,
+// given a project number, its project item, paging through with a cursor
+export async function fetchIssuesWithProjectItems(
+  repo: string,
+  includeClosed: boolean,
+  updatedSince: string | undefined,
+  projectNumber: number | null
+): Promise<{ issues: Issue[]; projectItems: Map<number, ProjectItem>; nodeIds: Map<number, string> }> {
+  const [owner, repoName] = repo.split('/');
+  const graphqlClient = await getGraphqlClient();
+
+  const query = `query($owner: String!, $name: String!, $states: [IssueState!], $since: DateTime, $cursor: String, $withProject: Boolean!) {
+    repository(owner: $owner, name: $name) {
+      issues(first: 50, after: $cursor, states: $states, filterBy: { since: $since }, orderBy: { field: UPDATED_AT, direction: DESC }) {
+        pageInfo {
+          hasNextPage
+          endCursor
+        }
+        nodes {
+          id
+          number
+          title
+          body
+          state
+          url
+          createdAt
+          updatedAt
+          closedAt
+          labels(first: 100) { nodes { name } }
+          assignees(first: 100) { nodes { login } }
+          milestone { title }
+          ...issueProjectItems @include(if: $withProject)
+        }
+      }
+    }
+  }
+  ${PROJECT_ITEMS_FRAGMENT}`;
+
+  const issues: Issue[] = [];
+  const projectItems = new Map<number, ProjectItem>();
+  const nodeIds = new Map<number, string>();
+  let cursor: string | null = null;
+
+  do {
+    let result: any;
+    try {
+      result = await graphqlClient(query, {
+        owner,
+        name: repoName,
+        states: includeClosed ? ['OPEN', 'CLOSED'] : ['OPEN'],
+        since: updatedSince ?? null,
+        cursor,
+        withProject: projectNumber !== null,
+      });
+    } catch (error: any) {
+      throw new Error(`failed to fetch issues: ${error.message}`);
+    }
+
+    const page = result?.repository?.issues;
+    if (!page) {
+      throw new Error(`repository ${repo} not found`);
+    }
+
+    for (const node of page.nodes) {
+      issues.push({
+        number: node.number,
+        title: node.title,
+        body: (node.body || '').trim(),
+        state: node.state === 'CLOSED' ? 'closed' : 'open',
+        labels: node.labels.nodes.map((l: any) => l.name),
+        assignees: node.assignees.nodes.map((a: any) => a.login),
+        milestone: node.milestone?.title || null,
+        created_at: node.createdAt,
+        updated_at: node.updatedAt,
+        closed_at: node.closedAt || null,
+        url: node.url,
+      });
+      nodeIds.set(node.number, node.id);
+
+      if (projectNumber !== null) {
+        const item = toProjectItem(node, projectNumber, repoName);
+        if (item) {
+          projectItems.set(node.number, item);
+        }
+      }
+    }
+
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+  } while (cursor);
+
+  return { issues, projectItems, nodeIds };
+}
+
 export async function getProjectItems(projectNumber: number, owner: string, repoName?: string): Promise<ProjectItem[]> {
   // this function is kept for backward compatibility but is inefficient
   // use getProjectItemsForIssues instead when possible
@@ -344,6 +446,28 @@ export async function getProjectItemForIssue(
   return itemsMap.get(issueNumber) || null;
 }
 
+export async function addProjectItem(projectId: string, contentId: string): Promise<string> {
+  const graphqlClient = await getGraphqlClient();
+
+  try {
+    const result: any = await graphqlClient(
+      `mutation($projectId: ID!, $contentId: ID!) {
+        addProjectV2ItemById(input: {
+          projectId: $projectId
+          contentId: $contentId
+        }) {
+          item { id }
+        }
+      }`,
+      { projectId, contentId }
+    );
+
+    return result.addProjectV2ItemById.item.id;
+  } catch (error: any) {
+    throw new Error(`failed to add item to project: ${error.message}`);
+  }
+}
+
 export async function updateProjectField(
   projectId: string,
   itemId: string,
@@ -508,3 +632,42 @@ export function extractProjectFieldValues(item: ProjectItem, fields: ProjectFiel
 
   return values;
 }
+
+// a value typed in by hand (`edit --field`, an imported cell) in the shape
+// extractProjectFieldValues gives remote values, so the two compare equal.
+// fields are checked against the cached ones when there are any
+export function parseProjectFieldValue(fields: ProjectField[] | undefined, name: string, value: string): ProjectFieldValue {
+  const field = fields?.find(f => f.name === name);
+  if (fields && !field) {
+    throw new Error(`unknown project field "${name}"`);
+  }
+
+  if (value === '') {
+    return null;
+  }
+  if (!field) {
+    return value;
+  }
+
+  switch (field.dataType) {
+    case 'NUMBER': {
+      const number = Number(value);
+      if (Number.isNaN(number)) {
+        throw new Error(`"${value}" is not a number for field "${name}"`);
+      }
+      return number;
+    }
+
+    case 'DATE':
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+        throw new Error(`"${value}" is not a YYYY-MM-DD date for field "${name}"`);
+      }
+      return value;
+
+    default:
+      if (field.options && !field.options.some(o => o.name === value)) {
+        throw new Error(`unknown option "${value}" for field "${name}" (expected ${field.options.map(o => o.name).join(', ')})`);
+      }
+      return value;
+  }
+}
@@ -0,0 +1,218 @@
+import { existsSync } from 'fs';
+import { join } from 'path';
+import { loadConfig, saveConfig, getStorageRoot } from './storage.js';
+import { getCurrentHost } from './client.js';
+import { githubProvider } from './github-provider.js';
+import { gitlabProvider } from './gitlab-provider.js';
+import { createMemoryProvider } from './memory-provider.js';
+import type {
+  Issue,
+  Comment,
+  GitLabFields,
+  Label,
+  Milestone,
+  ProjectConfig,
+  ProjectField,
+  ProjectFieldValue,
+  ProjectItem,
+} from './types.js';
+
+export interface IssueUpdate {
+  title?: string;
+  body?: string;
+  state?: 'open' | 'closed';
+  // ignored by providers without close reasons
+  state_reason?: 'completed' | 'not_planned';
+  labels?: string[];
+  assignees?: string[];
+  milestone?: string | null;
+  // the milestone's number when the caller already knows it, saves looking up the title
+  milestone_number?: number;
+  gitlab?: GitLabFields;
+}
+
+export type NewIssue = Omit<Issue, 'number' | 'created_at' | 'updated_at' | 'closed_at' | 'url'>
+  & Pick<IssueUpdate, 'milestone_number'>;
+
+export interface IssueBatch {
+  issues: Issue[];
+  // only for issues in the project, and only when a project was asked for
+  projectItems: Map<number, ProjectItem>;
+  nodeIds: Map<number, string>;
+}
+
+// what happened to an issue that's no longer listed in its repo
+export type IssueLocation =
+  | { status: 'found'; issue: Issue }
+  | { status: 'transferred'; repo: string; number: number }
+  | { status: 'deleted' }
+  // 404s can't tell deleted from inaccessible
+  | { status: 'missing' };
+
+// everything the sync flows need from the remote side; github is one implementation
+export interface IssueProvider {
+  name: string;
+
+  getCurrentRepo(): Promise<string>;
+
+  fetchIssues(repo: string, includeClosed?: boolean, updatedSince?: string): Promise<Issue[]>;
+  fetchIssue(repo: string, number: number): Promise<Issue | null>;
+  // issues and their project items in one pass, for providers that can do better
+  // than fetchIssues followed by getProjectItems
+  fetchIssueBatch?(repo: string, includeClosed: boolean, updatedSince: string | undefined, project: ProjectConfig | null): Promise<IssueBatch>;
+  // number and state of every issue, for providers with something cheaper than fetchIssues
+  fetchIssueStates?(repo: string): Promise<Map<number, Issue['state']>>;
+  // providers that can tell transferred and deleted issues apart from missing ones
+  locateIssue?(repo: string, number: number): Promise<IssueLocation>;
+  updateIssue(repo: string, number: number, updates: IssueUpdate): Promise<Issue>;
+  // nodeId is whatever addProjectItem needs to add the issue to a project
+  createIssue(repo: string, issue: NewIssue): Promise<{ issue: Issue; nodeId: string }>;
+
+  fetchMilestones(repo: string): Promise<Milestone[]>;
+  createMilestone(repo: string, milestone: Milestone): Promise<Milestone>;
+  updateMilestone(repo: string, number: number, milestone: Milestone): Promise<Milestone>;
+
+  fetchLabels(repo: string): Promise<Label[]>;
+  createLabel(repo: string, label: Label): Promise<Label>;
+  updateLabel(repo: string, currentName: string, label: Label): Promise<Label>;
+
+  getViewerLogin(): Promise<string>;
+  // comments across the whole repo, grouped by issue number
+  fetchComments(repo: string, updatedSince?: string): Promise<Map<number, Comment[]>>;
+  fetchIssueComments(repo: string, number: number): Promise<Comment[]>;
+  createComment(repo: string, number: number, body: string): Promise<Comment>;
+  updateComment(repo: string, number: number, id: number, body: string): Promise<Comment>;
+
+  // configured or auto-detected project for the repo, null if there isn't one
+  getProjectConfig(repo: string): Promise<ProjectConfig | null>;
+  getProjectFields(project: ProjectConfig): Promise<ProjectField[]>;
+  getProjectId(project: ProjectConfig): Promise<string>;
+  getProjectItems(project: ProjectConfig, repo: string, issueNumbers: number[]): Promise<Map<number, ProjectItem>>;
+  addProjectItem(projectId: string, contentId: string): Promise<string>;
+  updateProjectField(projectId: string, itemId: string, field: ProjectField, value: ProjectFieldValue): Promise<void>;
+}
+
+// issues plus project items for the given project (if any)
+export async function fetchIssueBatch(
+  provider: IssueProvider,
+  repo: string,
+  includeClosed: boolean,
+  updatedSince: string | undefined,
+  project: ProjectConfig | null
+): Promise<IssueBatch> {
+  if (provider.fetchIssueBatch) {
+    return provider.fetchIssueBatch(repo, includeClosed, updatedSince, project);
+  }
+
+  const issues = await provider.fetchIssues(repo, includeClosed, updatedSince);
+  const projectItems = project
+    ? await provider.getProjectItems(project, repo, issues.map(i => i.number))
+    : new Map<number, ProjectItem>();
+
+  return { issues, projectItems, nodeIds: new Map() };
+}
+
+export async function fetchIssueStates(provider: IssueProvider, repo: string): Promise<Map<number, Issue['state']>> {
+  if (provider.fetchIssueStates) {
+    return provider.fetchIssueStates(repo);
+  }
+
+  const issues = await provider.fetchIssues(repo, true);
+  return new Map(issues.map(i => [i.number, i.state]));
+}
+
+export async function locateIssue(provider: IssueProvider, repo: string, number: number): Promise<IssueLocation> {
+  if (provider.locateIssue) {
+    return provider.locateIssue(repo, number);
+  }
+
+  const issue = await provider.fetchIssue(repo, number);
+  return issue ? { status: 'found', issue } : { status: 'missing' };
+}
+
+let providerOverride: IssueProvider | null = null;
+const memoryProviders = new Map<string, IssueProvider>();
+const detectedProviders = new Map<string, string>();
+
+const PROBE_TIMEOUT_MS = 5000;
+
+async function probe(url: string, accept: (response: Response) => boolean): Promise<boolean> {
+  try {
+    const response = await fetch(url, { signal: AbortSignal.timeout(PROBE_TIMEOUT_MS) });
+    return accept(response) && (response.headers.get('content-type') || '').includes('json');
+  } catch {
+    return false;
+  }
+}
+
+// github.com and hosts named after github or gitlab are obvious, anything else is
+// asked once and remembered in config.json: gitlab answers /api/v4/version, github
+// enterprise /api/v3/meta (both 401 without a token, or in private mode)
+async function detectProvider(host: string): Promise<string> {
+  if (host.includes('github')) {
+    return 'github';
+  }
+  if (host.includes('gitlab')) {
+    return 'gitlab';
+  }
+
+  const cached = detectedProviders.get(host);
+  if (cached) {
+    return cached;
+  }
+
+  let name: string;
+  if (await probe(`https://${host}/api/v4/version`, r => r.ok || r.status === 401)) {
+    name = 'gitlab';
+  } else if (await probe(`https://${host}/api/v3/meta`, r => r.ok || r.status === 401)) {
+    name = 'github';
+  } else {
+    // github enterprise is the more common self-hosted setup
+    console.warn(`warning: can't tell whether ${host} runs github enterprise or gitlab, assuming github (set "provider" in .issync/config.json or ISSYNC_PROVIDER if it's gitlab)`);
+    detectedProviders.set(host, 'github');
+    return 'github';
+  }
+
+  detectedProviders.set(host, name);
+
+  // only into an existing storage root, detection shouldn't create one
+  if (existsSync(getStorageRoot())) {
+    await saveConfig({ ...await loadConfig(), provider: name });
+  }
+  return name;
+}
+
+// for embedding issync with a custom backend
+export function setProvider(provider: IssueProvider | null): void {
+  providerOverride = provider;
+}
+
+// ISSYNC_PROVIDER overrides the provider set in config.json, otherwise it's
+// detected from the host
+export async function getProvider(): Promise<IssueProvider> {
+  if (providerOverride) {
+    return providerOverride;
+  }
+
+  const config = await loadConfig();
+  const name = process.env.ISSYNC_PROVIDER || config.provider || await detectProvider(await getCurrentHost());
+
+  switch (name) {
+    case 'github':
+      return githubProvider;
+
+    case 'gitlab':
+      return gitlabProvider;
+
+    case 'memory': {
+      const path = process.env.ISSYNC_MEMORY_PATH || config.memory_path || join(getStorageRoot(), 'remote.json');
+      if (!memoryProviders.has(path)) {
+        memoryProviders.set(path, createMemoryProvider({ path }));
+      }
+      return memoryProviders.get(path)!;
+    }
+
+    default:
+      throw new Error(`unknown provider "${name}" (expected github, gitlab or memory)`);
+  }
+}
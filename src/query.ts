@@ -0,0 +1,249 @@
+import { getProvider } from './provider.js';
+import { loadAllLocalIssues, loadSyncState, saveSyncState } from './storage.js';
+import type { Issue, GitLabFields } from './types.js';
+
+export interface IssueQuery {
+  state?: 'open' | 'closed' | 'all';
+  labels?: string[];
+  // @me is the authenticated user
+  assignees?: string[];
+  // "none" for issues without a milestone
+  milestone?: string;
+  createdAfter?: string;
+  createdBefore?: string;
+  updatedAfter?: string;
+  updatedBefore?: string;
+  closedAfter?: string;
+  closedBefore?: string;
+  // name=value or name!=value, on any field including project fields
+  where?: string[];
+  sort?: string;
+  reverse?: boolean;
+  limit?: number;
+}
+
+export type ListFormat = 'table' | 'json' | 'csv' | 'numbers';
+
+export const LIST_FORMATS: ListFormat[] = ['table', 'json', 'csv', 'numbers'];
+
+const ISSUE_FIELDS = [
+  'number', 'title', 'body', 'state', 'labels', 'assignees', 'milestone',
+  'created_at', 'updated_at', 'closed_at', 'url',
+];
+const DEFAULT_COLUMNS = ['number', 'state', 'title', 'labels', 'assignees', 'milestone', 'updated_at'];
+const MAX_TITLE_WIDTH = 60;
+
+interface Condition {
+  field: string;
+  value: string;
+  negate: boolean;
+}
+
+// top-level fields, gitlab.<field>, project_fields.<name>, or just the name of a project field
+export function getIssueField(issue: Issue, field: string): unknown {
+  if (field.startsWith('project_fields.')) {
+    return issue.project_fields?.[field.slice('project_fields.'.length)] ?? null;
+  }
+  if (field.startsWith('gitlab.')) {
+    return issue.gitlab?.[field.slice('gitlab.'.length) as keyof GitLabFields] ?? null;
+  }
+  if (ISSUE_FIELDS.includes(field)) {
+    return (issue as any)[field] ?? null;
+  }
+
+  // project field names are matched case-insensitively, like the project board does
+  const name = Object.keys(issue.project_fields || {}).find(k => k.toLowerCase() === field.toLowerCase());
+  return name ? issue.project_fields![name] : null;
+}
+
+function parseCondition(expr: string): Condition {
+  const match = expr.match(/^([^!=]+)(!?=)(.*)$/);
+  if (!match) {
+    throw new Error(`invalid condition "${expr}" (expected field=value or field!=value)`);
+  }
+  return { field: match[1].trim(), value: match[3].trim(), negate: match[2] === '!=' };
+}
+
+function matchesValue(actual: unknown, expected: string): boolean {
+  if (actual === null || actual === undefined || actual === '' || (Array.isArray(actual) && actual.length === 0)) {
+    return expected === '' || expected.toLowerCase() === 'none';
+  }
+  if (Array.isArray(actual)) {
+    return actual.some(v => matchesValue(v, expected));
+  }
+  return String(actual).toLowerCase() === expected.toLowerCase();
+}
+
+function parseDate(value: string | undefined, option: string): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`invalid date "${value}" for ${option}`);
+  }
+  return date.toISOString();
+}
+
+function inRange(value: string | null, after: string | undefined, before: string | undefined): boolean {
+  if (!after && !before) {
+    return true;
+  }
+  if (!value) {
+    return false;
+  }
+
+  const time = new Date(value).toISOString();
+  return (!after || time >= after) && (!before || time < before);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+  const empty = (v: unknown) => v === null || v === undefined || (Array.isArray(v) && v.length === 0);
+
+  // issues without a value go last either way
+  if (empty(a) || empty(b)) {
+    return empty(a) === empty(b) ? 0 : empty(a) ? 1 : -1;
+  }
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+
+  const text = (v: unknown) => (Array.isArray(v) ? v.join(',') : String(v));
+  return text(a).localeCompare(text(b), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+export function filterIssues(issues: Issue[], query: IssueQuery): Issue[] {
+  const state = query.state ?? 'open';
+  if (!['open', 'closed', 'all'].includes(state)) {
+    throw new Error(`unknown state "${state}" (expected open, closed or all)`);
+  }
+  const conditions = (query.where || []).map(parseCondition);
+
+  const created = [parseDate(query.createdAfter, '--created-after'), parseDate(query.createdBefore, '--created-before')];
+  const updated = [parseDate(query.updatedAfter, '--updated-after'), parseDate(query.updatedBefore, '--updated-before')];
+  const closed = [parseDate(query.closedAfter, '--closed-after'), parseDate(query.closedBefore, '--closed-before')];
+
+  return issues.filter(issue => {
+    if (state !== 'all' && issue.state !== state) {
+      return false;
+    }
+    if (query.labels?.some(label => !matchesValue(issue.labels, label))) {
+      return false;
+    }
+    if (query.assignees?.some(login => !matchesValue(issue.assignees, login))) {
+      return false;
+    }
+    if (query.milestone !== undefined && !matchesValue(issue.milestone, query.milestone)) {
+      return false;
+    }
+    if (!inRange(issue.created_at, created[0], created[1])
+      || !inRange(issue.updated_at, updated[0], updated[1])
+      || !inRange(issue.closed_at, closed[0], closed[1])) {
+      return false;
+    }
+
+    return conditions.every(c => matchesValue(getIssueField(issue, c.field), c.value) !== c.negate);
+  });
+}
+
+export function sortIssues(issues: Issue[], field: string = 'number', reverse: boolean = false): Issue[] {
+  const sorted = [...issues].sort((a, b) =>
+    compareValues(getIssueField(a, field), getIssueField(b, field)) || a.number - b.number
+  );
+  return reverse ? sorted.reverse() : sorted;
+}
+
+// login for @me, looked up once and then kept in state.json so queries stay offline
+export async function resolveViewer(): Promise<string> {
+  if (process.env.ISSYNC_USER) {
+    return process.env.ISSYNC_USER;
+  }
+
+  const state = await loadSyncState();
+  if (!state.viewer_login) {
+    state.viewer_login = await (await getProvider()).getViewerLogin();
+    await saveSyncState(state);
+  }
+  return state.viewer_login;
+}
+
+// filters, sorts and limits the local issues, never touching the network
+// unless @me needs resolving for the first time
+export async function queryIssues(query: IssueQuery): Promise<Issue[]> {
+  let assignees = query.assignees;
+  if (assignees?.includes('@me')) {
+    const login = await resolveViewer();
+    assignees = assignees.map(a => (a === '@me' ? login : a));
+  }
+
+  const matched = filterIssues(await loadAllLocalIssues(), { ...query, assignees });
+  const sorted = sortIssues(matched, query.sort, query.reverse);
+  return query.limit !== undefined ? sorted.slice(0, query.limit) : sorted;
+}
+
+function cellValue(issue: Issue, column: string): string {
+  const value = getIssueField(issue, column);
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return value.join(', ');
+  }
+  if (column.endsWith('_at')) {
+    return String(value).split('T')[0];
+  }
+  return String(value);
+}
+
+export function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function truncate(value: string, width: number): string {
+  return value.length > width ? `${value.slice(0, width - 1)}…` : value;
+}
+
+export function formatIssues(issues: Issue[], format: ListFormat, columns: string[] = DEFAULT_COLUMNS): string {
+  switch (format) {
+    case 'json':
+      return JSON.stringify(issues, null, 2);
+
+    case 'numbers':
+      return issues.map(i => i.number).join('\n');
+
+    case 'csv': {
+      const rows = issues.map(issue => columns.map(c => csvCell(cellValue(issue, c))).join(','));
+      return [columns.join(','), ...rows].join('\n');
+    }
+
+    case 'table': {
+      const rows = issues.map(issue => columns.map(c => {
+        const value = cellValue(issue, c);
+        return c === 'number' ? `#${value}` : c === 'title' ? truncate(value, MAX_TITLE_WIDTH) : value;
+      }));
+      const header = columns.map(c => c.replace(/^project_fields\./, '').replace(/_at$/, '').toUpperCase());
+      const widths = header.map((h, i) => Math.max(h.length, ...rows.map(r => r[i].length)));
+      const line = (cells: string[]) => cells.map((c, i) => c.padEnd(widths[i])).join('  ').trimEnd();
+      return [line(header), ...rows.map(line)].join('\n');
+    }
+  }
+}
+
+export async function listIssues(query: IssueQuery, format: ListFormat = 'table', columns?: string[]): Promise<void> {
+  if (!LIST_FORMATS.includes(format)) {
+    throw new Error(`unknown format "${format}" (expected ${LIST_FORMATS.join(', ')})`);
+  }
+
+  const issues = await queryIssues(query);
+
+  if (format === 'table' && issues.length === 0) {
+    console.log('no matching issues');
+    return;
+  }
+
+  const output = formatIssues(issues, format, columns);
+  if (output) {
+    console.log(output);
+  }
+}
@@ -0,0 +1,209 @@
+import { loadConfig } from './storage.js';
+
+const MAX_ATTEMPTS = 5;
+const BASE_DELAY_MS = 1000;
+const MAX_BACKOFF_MS = 60 * 1000;
+// waiting longer than this for a quota reset isn't worth it, fail instead
+const MAX_WAIT_MS = 15 * 60 * 1000;
+const DEFAULT_CONCURRENCY = 4;
+
+type HeaderSource = Headers | Record<string, string | number | undefined> | undefined;
+
+// no requests until this time, set when the quota runs out
+let pausedUntil = 0;
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+// github sends x-ratelimit-*, gitlab ratelimit-*
+function header(headers: HeaderSource, name: string): string | undefined {
+  if (!headers) {
+    return undefined;
+  }
+
+  const read = (key: string) => headers instanceof Headers
+    ? headers.get(key) ?? undefined
+    : headers[key]?.toString();
+
+  return read(`x-${name}`) ?? read(name);
+}
+
+function resetDelay(headers: HeaderSource): number | null {
+  const reset = header(headers, 'ratelimit-reset');
+  if (!reset) {
+    return null;
+  }
+
+  // a second of slack for clock skew
+  return Math.max(0, parseInt(reset, 10) * 1000 - Date.now()) + 1000;
+}
+
+// remember when the quota runs out, so the next request waits for the reset instead of failing
+export function noteRateLimit(headers: HeaderSource): void {
+  if (header(headers, 'ratelimit-remaining') !== '0') {
+    return;
+  }
+
+  const delay = resetDelay(headers);
+  if (delay !== null) {
+    pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+  }
+}
+
+async function waitForQuota(): Promise<void> {
+  const wait = pausedUntil - Date.now();
+  if (wait <= 0) {
+    return;
+  }
+
+  if (wait > MAX_WAIT_MS) {
+    throw new Error(`rate limit exhausted, resets at ${new Date(pausedUntil).toISOString()}`);
+  }
+
+  console.warn(`warning: rate limit reached, waiting ${Math.ceil(wait / 1000)}s for it to reset`);
+  await sleep(wait);
+}
+
+function errorHeaders(error: any): HeaderSource {
+  return error?.response?.headers ?? error?.headers;
+}
+
+function isRateLimited(error: any): boolean {
+  const status = error?.status;
+  if (status === 429) {
+    return true;
+  }
+
+  if (status === 403) {
+    return header(errorHeaders(error), 'ratelimit-remaining') === '0'
+      || header(errorHeaders(error), 'retry-after') !== undefined
+      || /rate limit/i.test(error?.message || '');
+  }
+
+  return error?.rateLimited === true;
+}
+
+// server errors and dropped connections can arrive after the write was applied,
+// so only requests that are safe to repeat retry them. rate limits were rejected
+// up front and always retry
+function isRetryable(error: any, idempotent: boolean): boolean {
+  if (isRateLimited(error)) {
+    return true;
+  }
+  if (!idempotent) {
+    return false;
+  }
+
+  const status = error?.status;
+  if (status === 500 || status === 502 || status === 503 || status === 504) {
+    return true;
+  }
+
+  // network failures never got a status
+  const code = error?.code || error?.cause?.code;
+  return ['ECONNRESET', 'ETIMEDOUT', 'ECONNREFUSED', 'EAI_AGAIN', 'UND_ERR_SOCKET'].includes(code);
+}
+
+function retryDelay(error: any, attempt: number): number {
+  const headers = errorHeaders(error);
+
+  const retryAfter = header(headers, 'retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    return Number.isNaN(seconds)
+      ? Math.max(0, new Date(retryAfter).getTime() - Date.now())
+      : seconds * 1000;
+  }
+
+  if (isRateLimited(error)) {
+    const reset = resetDelay(headers);
+    if (reset !== null) {
+      return reset;
+    }
+  }
+
+  // exponential backoff with jitter
+  const backoff = Math.min(MAX_BACKOFF_MS, BASE_DELAY_MS * 2 ** attempt);
+  return backoff / 2 + Math.random() * backoff / 2;
+}
+
+// GET, HEAD, PUT, DELETE and PATCH (issync's patches set fields, so repeating one is harmless)
+export function isIdempotent(method: string): boolean {
+  return ['GET', 'HEAD', 'PUT', 'DELETE', 'PATCH'].includes(method.toUpperCase());
+}
+
+// runs an api call, retrying rate limits, and server errors and network failures
+// when the call is idempotent
+export async function withRetry<T>(
+  fn: () => Promise<T>,
+  description: string = 'request',
+  idempotent: boolean = true
+): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    await waitForQuota();
+
+    try {
+      return await fn();
+    } catch (error: any) {
+      if (!isRetryable(error, idempotent) || attempt + 1 >= MAX_ATTEMPTS) {
+        throw error;
+      }
+
+      const delay = retryDelay(error, attempt);
+      if (delay > MAX_WAIT_MS) {
+        throw error;
+      }
+
+      const reason = isRateLimited(error) ? 'rate limited' : error.status ? `got ${error.status}` : error.code || 'failed';
+      console.warn(`warning: ${description} ${reason}, retrying in ${Math.ceil(delay / 1000)}s (attempt ${attempt + 2}/${MAX_ATTEMPTS})`);
+      await sleep(delay);
+    }
+  }
+}
+
+// octokit request hook (octokit.hook.wrap('request', ...) and graphql's request.hook)
+export async function retryHook(request: any, options: any): Promise<any> {
+  const description = `${options.method} ${options.url}`;
+  // graphql is always a POST, but only mutations write
+  const query = options.query ?? options.body?.query;
+  const idempotent = typeof query === 'string'
+    ? !/^\s*mutation\b/.test(query)
+    : isIdempotent(options.method);
+
+  return withRetry(async () => {
+    const response = await request(options);
+    noteRateLimit(response.headers);
+
+    // graphql reports rate limits as a 200 with errors
+    if (response.data?.errors?.some((e: any) => e.type === 'RATE_LIMITED')) {
+      const error: any = new Error('graphql rate limit exceeded');
+      error.rateLimited = true;
+      error.headers = response.headers;
+      throw error;
+    }
+
+    return response;
+  }, description, idempotent);
+}
+
+export async function getConcurrency(): Promise<number> {
+  const configured = Number(process.env.ISSYNC_CONCURRENCY || (await loadConfig()).concurrency);
+  return configured >= 1 ? Math.floor(configured) : DEFAULT_CONCURRENCY;
+}
+
+// like Promise.all over items.map(fn), with at most `limit` calls in flight
+export async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  async function worker(): Promise<void> {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
@@ -0,0 +1,215 @@
+import { createInterface, type Interface } from 'readline/promises';
+import { spawnSync } from 'child_process';
+import { mkdtemp, readFile, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { getProvider } from './provider.js';
+import {
+  loadIssue,
+  loadBase,
+  saveIssue,
+  saveBase,
+  loadSyncState,
+  saveSyncState,
+  contentHash,
+} from './storage.js';
+import { mergeIssue, changedFields, type FieldConflict } from './merge.js';
+import { mergeText } from './diff.js';
+import { detectConflicts, fetchRemoteIssue } from './sync.js';
+import type { Issue, GitLabFields, ProjectFieldValue } from './types.js';
+
+const CONFLICT_MARKER = /^(<<<<<<<|\|\|\|\|\|\|\||=======|>>>>>>>)( |$)/m;
+
+function formatValue(value: unknown): string {
+  if (value === undefined) return '(unknown)';
+  if (value === null || value === '') return '(none)';
+  if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '(none)';
+  return String(value);
+}
+
+function getField(issue: Issue, field: string): unknown {
+  if (field.startsWith('project_fields.')) {
+    return issue.project_fields?.[field.slice('project_fields.'.length)] ?? null;
+  }
+  if (field.startsWith('gitlab.')) {
+    return issue.gitlab?.[field.slice('gitlab.'.length) as keyof GitLabFields] ?? null;
+  }
+  return (issue as any)[field];
+}
+
+function setField(issue: Issue, field: string, value: unknown): void {
+  if (field.startsWith('project_fields.')) {
+    issue.project_fields = {
+      ...issue.project_fields,
+      [field.slice('project_fields.'.length)]: value as ProjectFieldValue,
+    };
+    return;
+  }
+  if (field.startsWith('gitlab.')) {
+    issue.gitlab = {
+      weight: null,
+      due_date: null,
+      ...issue.gitlab,
+      [field.slice('gitlab.'.length)]: value,
+    };
+    return;
+  }
+  (issue as any)[field] = value;
+}
+
+async function editBody(content: string, number: number): Promise<string> {
+  const dir = await mkdtemp(join(tmpdir(), 'issync-'));
+  const file = join(dir, `issue-${number}.md`);
+
+  try {
+    await writeFile(file, content, 'utf-8');
+    const editor = process.env.VISUAL || process.env.EDITOR || 'vi';
+    const result = spawnSync(`${editor} "${file}"`, { stdio: 'inherit', shell: true });
+    if (result.status !== 0) {
+      throw new Error(`editor exited with status ${result.status}`);
+    }
+    return (await readFile(file, 'utf-8')).trim();
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function resolveField(
+  rl: Interface,
+  number: number,
+  conflict: FieldConflict,
+  base: Issue | null
+): Promise<unknown> {
+  console.log(`\n${conflict.field}`);
+
+  if (conflict.field === 'body') {
+    const marked = base
+      ? mergeText(base.body, String(conflict.local), String(conflict.remote)).text
+      : ['<<<<<<< local', String(conflict.local), '=======', String(conflict.remote), '>>>>>>> remote'].join('\n');
+    console.log(marked.split('\n').map(line => `  ${line}`).join('\n'));
+
+    while (true) {
+      const answer = (await rl.question('keep [l]ocal, [r]emote, or [e]dit? ')).trim().toLowerCase();
+      if (answer === 'l') return conflict.local;
+      if (answer === 'r') return conflict.remote;
+      if (answer === 'e') {
+        // hand the terminal over to the editor while it runs
+        rl.pause();
+        process.stdin.setRawMode?.(false);
+        let edited: string;
+        try {
+          edited = await editBody(marked, number);
+        } finally {
+          process.stdin.setRawMode?.(true);
+          rl.resume();
+        }
+        if (CONFLICT_MARKER.test(edited)) {
+          console.log('body still contains conflict markers, try again');
+          continue;
+        }
+        return edited;
+      }
+    }
+  }
+
+  console.log(`  base:   ${formatValue(conflict.base)}`);
+  console.log(`  local:  ${formatValue(conflict.local)}`);
+  console.log(`  remote: ${formatValue(conflict.remote)}`);
+
+  while (true) {
+    const answer = (await rl.question('keep [l]ocal or [r]emote? ')).trim().toLowerCase();
+    if (answer === 'l') return conflict.local;
+    if (answer === 'r') return conflict.remote;
+  }
+}
+
+async function resolveIssue(rl: Interface, repo: string, number: number): Promise<void> {
+  const state = await loadSyncState();
+  const syncInfo = state.issues[number];
+  const local = await loadIssue(number);
+
+  if (!local || !syncInfo) {
+    console.log(`issue #${number} is not tracked locally`);
+    return;
+  }
+
+  const remote = await fetchRemoteIssue(repo, number, syncInfo.project_item_id);
+  if (!remote) {
+    console.log(`issue #${number} not found on github`);
+    return;
+  }
+
+  const base = await loadBase(number);
+
+  // without a base snapshot every differing field has to be picked by hand
+  let resolved: Issue;
+  let conflicts: FieldConflict[];
+  if (base) {
+    ({ merged: resolved, conflicts } = mergeIssue(base, local, remote));
+  } else {
+    resolved = { ...remote, project_fields: local.project_fields };
+    conflicts = changedFields(remote, local).map(field => ({
+      field,
+      base: undefined,
+      local: getField(local, field),
+      remote: getField(remote, field),
+    }));
+  }
+
+  console.log(`\nissue #${number}: ${local.title}`);
+
+  if (conflicts.length === 0) {
+    console.log('no conflicting fields, changes merged automatically');
+  }
+
+  for (const conflict of conflicts) {
+    setField(resolved, conflict.field, await resolveField(rl, number, conflict, base));
+  }
+
+  // base becomes the remote version, so the next up pushes whatever was kept locally
+  const syncedBase = { ...remote, project_fields: remote.project_fields ?? base?.project_fields };
+  await saveIssue(resolved);
+  await saveBase(syncedBase);
+
+  state.issues[number] = {
+    ...syncInfo,
+    github_updated_at: remote.updated_at,
+    local_updated_at: remote.updated_at,
+    last_synced_at: new Date().toISOString(),
+    content_hash: contentHash(syncedBase),
+  };
+  await saveSyncState(state);
+
+  const pending = changedFields(remote, resolved);
+  console.log(pending.length > 0
+    ? `resolved issue #${number}, run \`issync up\` to push ${pending.join(', ')}`
+    : `resolved issue #${number}, local file matches github`);
+}
+
+export async function resolveConflicts(number?: number): Promise<void> {
+  if (!process.stdin.isTTY) {
+    throw new Error('resolve needs an interactive terminal');
+  }
+
+  const repo = await (await getProvider()).getCurrentRepo();
+
+  let numbers: number[];
+  if (number !== undefined) {
+    numbers = [number];
+  } else {
+    numbers = (await detectConflicts()).map(c => c.number);
+    if (numbers.length === 0) {
+      console.log('no conflicts detected');
+      return;
+    }
+  }
+
+  const rl = createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    for (const n of numbers) {
+      await resolveIssue(rl, repo, n);
+    }
+  } finally {
+    rl.close();
+  }
+}
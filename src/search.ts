@@ -0,0 +1,395 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { createHash } from 'crypto';
+import {
+  getStorageRoot,
+  loadAllLocalIssues,
+  loadComments,
+} from './storage.js';
+import { filterIssues, resolveViewer } from './query.js';
+import type { Issue, Comment } from './types.js';
+
+// bump when the index format or tokenizer changes, older indexes are rebuilt
+const INDEX_VERSION = 1;
+const SNIPPET_WIDTH = 120;
+const TITLE_BOOST = 3;
+// bm25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+type Zone = 'title' | 'body' | 'comments';
+
+interface IndexedDoc {
+  hash: string;
+  // first position of the body and of the comments
+  zones: [number, number];
+  length: number;
+  terms: string[];
+}
+
+interface SearchIndex {
+  version: number;
+  docs: Record<number, IndexedDoc>;
+  // term -> issue number -> positions
+  postings: Record<string, Record<number, number[]>>;
+}
+
+export interface SearchResult {
+  number: number;
+  title: string;
+  state: Issue['state'];
+  score: number;
+  snippet: string;
+}
+
+interface ParsedQuery {
+  terms: string[];
+  phrases: string[][];
+  where: string[];
+  zones: Zone[] | null;
+}
+
+const indexFile = () => join(getStorageRoot(), 'search-index.json');
+
+// keyed by whatever text issues contain, so no prototype: terms like __proto__
+// and constructor are plain keys
+function dict<T>(entries: Record<string, T> = {}): Record<string, T> {
+  return Object.assign(Object.create(null), entries);
+}
+
+function emptyIndex(): SearchIndex {
+  return { version: INDEX_VERSION, docs: dict(), postings: dict() };
+}
+
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+}
+
+function docHash(issue: Issue, comments: Comment[]): string {
+  return createHash('sha256')
+    .update(JSON.stringify([issue.title, issue.body, comments.map(c => c.body)]))
+    .digest('hex')
+    .slice(0, 16);
+}
+
+async function loadIndex(): Promise<SearchIndex> {
+  try {
+    const index: SearchIndex = JSON.parse(await readFile(indexFile(), 'utf-8'));
+    if (index.version !== INDEX_VERSION) {
+      return emptyIndex();
+    }
+
+    const postings = dict<Record<number, number[]>>();
+    for (const [term, docs] of Object.entries(index.postings)) {
+      postings[term] = dict(docs);
+    }
+    return { ...index, docs: dict(index.docs), postings };
+  } catch {
+    return emptyIndex();
+  }
+}
+
+async function saveIndex(index: SearchIndex): Promise<void> {
+  await mkdir(getStorageRoot(), { recursive: true });
+  await writeFile(indexFile(), JSON.stringify(index), 'utf-8');
+}
+
+function removeDoc(index: SearchIndex, number: number): void {
+  for (const term of index.docs[number]?.terms || []) {
+    delete index.postings[term]?.[number];
+    if (index.postings[term] && Object.keys(index.postings[term]).length === 0) {
+      delete index.postings[term];
+    }
+  }
+  delete index.docs[number];
+}
+
+function addDoc(index: SearchIndex, issue: Issue, comments: Comment[], hash: string): void {
+  const title = tokenize(issue.title);
+  const body = tokenize(issue.body);
+  const commentTokens = comments.flatMap(c => tokenize(c.body));
+
+  // a gap between zones keeps phrases from matching across them
+  const bodyStart = title.length + 1;
+  const commentsStart = bodyStart + body.length + 1;
+  const positioned: [string, number][] = [
+    ...title.map((t, i): [string, number] => [t, i]),
+    ...body.map((t, i): [string, number] => [t, bodyStart + i]),
+    ...commentTokens.map((t, i): [string, number] => [t, commentsStart + i]),
+  ];
+
+  const terms = new Set<string>();
+  for (const [term, position] of positioned) {
+    const postings = (index.postings[term] ??= dict());
+    (postings[issue.number] ??= []).push(position);
+    terms.add(term);
+  }
+
+  index.docs[issue.number] = {
+    hash,
+    zones: [bodyStart, commentsStart],
+    length: positioned.length,
+    terms: [...terms],
+  };
+}
+
+// brings the index in line with the given issues, reindexing only those whose
+// title, body or comments changed
+async function refreshIndex(issues: Issue[]): Promise<{ index: SearchIndex; changed: number }> {
+  const index = await loadIndex();
+  let changed = 0;
+
+  const current = new Set(issues.map(i => i.number));
+  for (const number of Object.keys(index.docs).map(Number)) {
+    if (!current.has(number)) {
+      removeDoc(index, number);
+      changed++;
+    }
+  }
+
+  for (const issue of issues) {
+    const comments = (await loadComments(issue.number)) || [];
+    const hash = docHash(issue, comments);
+    if (index.docs[issue.number]?.hash === hash) {
+      continue;
+    }
+
+    removeDoc(index, issue.number);
+    addDoc(index, issue, comments, hash);
+    changed++;
+  }
+
+  if (changed > 0) {
+    await saveIndex(index);
+  }
+  return { index, changed };
+}
+
+// returns how many issues were reindexed or dropped
+export async function updateSearchIndex(): Promise<number> {
+  return (await refreshIndex(await loadAllLocalIssues())).changed;
+}
+
+// splits a query into free text terms, "quoted phrases" and github style
+// qualifiers (label:bug, is:open, -assignee:me, in:title, no:milestone)
+export function parseSearchQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], phrases: [], where: [], zones: null };
+  const tokens = query.match(/-?[\w.]+:"[^"]*"|-?[\w.]+:\S+|"[^"]*"|\S+/g) || [];
+
+  for (const token of tokens) {
+    const qualifier = token.match(/^(-?)([\w.]+):"?(.*?)"?$/);
+    // urls aren't qualifiers
+    if (!qualifier || token.startsWith('"') || token.includes('://')) {
+      const words = tokenize(token);
+      if (token.startsWith('"') && words.length > 1) {
+        parsed.phrases.push(words);
+      } else {
+        parsed.terms.push(...words);
+      }
+      continue;
+    }
+
+    const [, negate, key, value] = qualifier;
+    const op = negate ? '!=' : '=';
+
+    switch (key.toLowerCase()) {
+      case 'is':
+      case 'state':
+        // is:issue and friends don't narrow anything down here
+        if (value === 'open' || value === 'closed') {
+          parsed.where.push(`state${op}${value}`);
+        }
+        break;
+      case 'label':
+        parsed.where.push(`labels${op}${value}`);
+        break;
+      case 'assignee':
+        parsed.where.push(`assignees${op}${value}`);
+        break;
+      case 'no':
+        parsed.where.push(`${value === 'label' || value === 'assignee' ? `${value}s` : value}${op}none`);
+        break;
+      case 'in':
+        parsed.zones = value.split(',').filter((z): z is Zone => ['title', 'body', 'comments'].includes(z));
+        break;
+      default:
+        parsed.where.push(`${key}${op}${value}`);
+    }
+  }
+
+  return parsed;
+}
+
+function zoneOf(doc: IndexedDoc, position: number): Zone {
+  return position < doc.zones[0] ? 'title' : position < doc.zones[1] ? 'body' : 'comments';
+}
+
+function positionsIn(index: SearchIndex, term: string, number: number, zones: Zone[] | null): number[] {
+  const positions = index.postings[term]?.[number] || [];
+  return zones ? positions.filter(p => zones.includes(zoneOf(index.docs[number], p))) : positions;
+}
+
+// title matches count extra, like a weighted term frequency
+function termFrequency(index: SearchIndex, number: number, positions: number[]): number {
+  return positions.reduce((tf, p) => tf + (zoneOf(index.docs[number], p) === 'title' ? TITLE_BOOST : 1), 0);
+}
+
+function phrasePositions(index: SearchIndex, phrase: string[], number: number, zones: Zone[] | null): number[] {
+  const rest = phrase.slice(1).map(t => new Set(positionsIn(index, t, number, zones)));
+  return positionsIn(index, phrase[0], number, zones).filter(start => rest.every((set, i) => set.has(start + i + 1)));
+}
+
+function scoreDocs(index: SearchIndex, parsed: ParsedQuery, candidates: number[]): Map<number, number> {
+  const docs = Object.values(index.docs);
+  const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / Math.max(docs.length, 1);
+  const scores = new Map<number, number>();
+
+  const bm25 = (tf: number, df: number, length: number) => {
+    const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5));
+    return idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * length / avgLength));
+  };
+
+  for (const number of candidates) {
+    const doc = index.docs[number];
+    if (!doc) {
+      continue;
+    }
+
+    let score = 0;
+    let matched = true;
+
+    // every term and phrase has to match
+    for (const term of parsed.terms) {
+      const positions = positionsIn(index, term, number, parsed.zones);
+      if (positions.length === 0) {
+        matched = false;
+        break;
+      }
+      score += bm25(termFrequency(index, number, positions), Object.keys(index.postings[term]).length, doc.length);
+    }
+
+    for (const phrase of parsed.phrases) {
+      if (!matched) {
+        break;
+      }
+      const starts = phrasePositions(index, phrase, number, parsed.zones);
+      if (starts.length === 0) {
+        matched = false;
+        break;
+      }
+      const df = Math.min(...phrase.map(t => Object.keys(index.postings[t] || {}).length));
+      score += phrase.length * bm25(termFrequency(index, number, starts), df, doc.length);
+    }
+
+    if (matched) {
+      scores.set(number, score);
+    }
+  }
+
+  return scores;
+}
+
+// the part of the text around the first match, with matches highlighted on a terminal
+function makeSnippet(texts: string[], words: string[], highlight: boolean): string {
+  const pattern = words.length > 0
+    ? new RegExp(`(?<![\\p{L}\\p{N}_])(${words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})(?![\\p{L}\\p{N}_])`, 'giu')
+    : null;
+
+  const text = texts.find(t => pattern && t.search(pattern) !== -1) ?? texts.find(t => t.trim()) ?? '';
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const at = pattern ? Math.max(0, flat.search(pattern)) : 0;
+  // start on a word boundary
+  let start = Math.max(0, at - SNIPPET_WIDTH / 3);
+  if (start > 0) {
+    start = flat.indexOf(' ', start) + 1 || start;
+    start = Math.min(start, at);
+  }
+  let snippet = flat.slice(start, start + SNIPPET_WIDTH);
+
+  if (start > 0) {
+    snippet = `…${snippet}`;
+  }
+  if (start + SNIPPET_WIDTH < flat.length) {
+    snippet = `${snippet}…`;
+  }
+  return highlight && pattern ? snippet.replace(pattern, '\x1b[1m$1\x1b[0m') : snippet;
+}
+
+export async function searchIssues(query: string, highlight: boolean = false): Promise<SearchResult[]> {
+  const parsed = parseSearchQuery(query);
+  const local = await loadAllLocalIssues();
+  const { index } = await refreshIndex(local);
+
+  const where = await Promise.all(parsed.where.map(async w => {
+    const [, field, op, value] = w.match(/^([^!=]+)(!?=)(.*)$/)!;
+    return field === 'assignees' && ['me', '@me'].includes(value) ? `${field}${op}${await resolveViewer()}` : w;
+  }));
+
+  const issues = filterIssues(local, { state: 'all', where });
+  const byNumber = new Map(issues.map(i => [i.number, i]));
+
+  const hasText = parsed.terms.length > 0 || parsed.phrases.length > 0;
+  const scores = hasText
+    ? scoreDocs(index, parsed, issues.map(i => i.number))
+    : new Map(issues.map(i => [i.number, 0]));
+
+  const words = [...parsed.terms, ...parsed.phrases.map(p => p.join(' '))];
+  const results: SearchResult[] = [];
+
+  for (const [number, score] of scores) {
+    const issue = byNumber.get(number)!;
+    const comments = (await loadComments(number)) || [];
+    const zones = parsed.zones ?? ['title', 'body', 'comments'];
+    const texts = [
+      ...(zones.includes('body') ? [issue.body] : []),
+      ...(zones.includes('comments') ? comments.map(c => c.body) : []),
+      ...(zones.includes('title') ? [issue.title] : []),
+    ];
+
+    results.push({
+      number,
+      title: issue.title,
+      state: issue.state,
+      score,
+      snippet: makeSnippet(texts, words, highlight),
+    });
+  }
+
+  // without search text, most recently updated first
+  return hasText
+    ? results.sort((a, b) => b.score - a.score || a.number - b.number)
+    : results.sort((a, b) => byNumber.get(b.number)!.updated_at.localeCompare(byNumber.get(a.number)!.updated_at));
+}
+
+export async function printSearchResults(query: string, limit: number = 20, format: string = 'text'): Promise<void> {
+  const results = (await searchIssues(query, format === 'text' && process.stdout.isTTY)).slice(0, limit);
+
+  switch (format) {
+    case 'json':
+      console.log(JSON.stringify(results, null, 2));
+      return;
+
+    case 'numbers':
+      if (results.length > 0) {
+        console.log(results.map(r => r.number).join('\n'));
+      }
+      return;
+
+    case 'text':
+      if (results.length === 0) {
+        console.log('no matching issues');
+        return;
+      }
+
+      for (const result of results) {
+        console.log(`#${result.number} ${result.title} (${result.state})`);
+        if (result.snippet) {
+          console.log(`  ${result.snippet}`);
+        }
+      }
+      return;
+
+    default:
+      throw new Error(`unknown format "${format}" (expected text, json or numbers)`);
+  }
+}
@@ -0,0 +1,116 @@
+import { getProvider } from './provider.js';
+import {
+  loadAllLocalIssues,
+  loadBase,
+  loadDrafts,
+  loadSyncState,
+  isLocallyModified,
+} from './storage.js';
+import { changedFields, mergeIssue } from './merge.js';
+import { getLastSyncTime } from './sync.js';
+import type { Issue, StatusEntry, StatusReport } from './types.js';
+
+export async function getStatus(checkRemote: boolean = false): Promise<StatusReport> {
+  const localIssues = await loadAllLocalIssues();
+  const drafts = await loadDrafts();
+  const state = await loadSyncState();
+
+  const report: StatusReport = {
+    modified: [],
+    untracked: [],
+    deleted: [],
+    drafts: drafts.map(d => ({ id: d.id, title: d.title })),
+  };
+
+  const localMap = new Map<number, Issue>();
+  const modified = new Set<number>();
+
+  for (const local of localIssues) {
+    localMap.set(local.number, local);
+    const syncInfo = state.issues[local.number];
+
+    if (!syncInfo) {
+      report.untracked.push({ number: local.number, title: local.title });
+      continue;
+    }
+
+    if (!await isLocallyModified(local, syncInfo)) {
+      continue;
+    }
+
+    modified.add(local.number);
+    const base = await loadBase(local.number);
+    report.modified.push({
+      number: local.number,
+      title: local.title,
+      fields: base ? changedFields(base, local) : undefined,
+    });
+  }
+
+  for (const number of Object.keys(state.issues).map(Number)) {
+    if (!localMap.has(number)) {
+      report.deleted.push(number);
+    }
+  }
+  report.deleted.sort((a, b) => a - b);
+
+  if (!checkRemote) {
+    return report;
+  }
+
+  const provider = await getProvider();
+  const repo = await provider.getCurrentRepo();
+  const since = getLastSyncTime(state);
+  // a modified issue left conflicted by an earlier `down` still has the older
+  // github_updated_at, and its remote change can predate the last sync
+  let fetchSince = since;
+  for (const number of modified) {
+    const updatedAt = state.issues[number].github_updated_at;
+    if (fetchSince && updatedAt < fetchSince) {
+      fetchSince = updatedAt;
+    }
+  }
+  const remoteIssues = await provider.fetchIssues(repo, true, fetchSince);
+
+  const updated: StatusEntry[] = [];
+  const added: StatusEntry[] = [];
+  const conflicts: StatusEntry[] = [];
+
+  for (const remote of remoteIssues) {
+    const syncInfo = state.issues[remote.number];
+
+    if (!syncInfo) {
+      if (!since || remote.updated_at > since) {
+        added.push({ number: remote.number, title: remote.title });
+      }
+      continue;
+    }
+
+    if (remote.updated_at <= syncInfo.github_updated_at) {
+      continue;
+    }
+
+    const base = await loadBase(remote.number);
+    const local = localMap.get(remote.number);
+
+    if (base && local && modified.has(remote.number)) {
+      const { conflicts: fieldConflicts } = mergeIssue(base, local, remote);
+      if (fieldConflicts.length > 0) {
+        conflicts.push({ number: remote.number, title: remote.title, fields: fieldConflicts.map(c => c.field) });
+        continue;
+      }
+    } else if (!base && modified.has(remote.number)) {
+      conflicts.push({ number: remote.number, title: remote.title });
+      continue;
+    }
+
+    updated.push({
+      number: remote.number,
+      title: remote.title,
+      fields: base ? changedFields(base, { ...remote, project_fields: base.project_fields }) : undefined,
+    });
+  }
+
+  report.remote = { since, updated, added, conflicts };
+  return report;
+}
@@ -1,19 +1,150 @@
-import { readFile, writeFile, readdir, mkdir } from 'fs/promises';
-import { join } from 'path';
+import { readFile, writeFile, readdir, mkdir, unlink, rename, rmdir, stat } from 'fs/promises';
+import { join, dirname, relative } from 'path';
+import { createHash } from 'crypto';
 import matter from 'gray-matter';
 import YAML from 'yaml';
-import type { Issue, SyncState, ProjectConfig } from './types.js';
+import type { Issue, Comment, Draft, Label, Milestone, SyncState, Config } from './types.js';
 
-const ISSUES_DIR = '.issync/issues';
-const STATE_FILE = '.issync/state.json';
-const CONFIG_FILE = '.issync/config.json';
+// every repo's files live under a storage root, .issync for a single repo
+// or a per-repo directory inside a workspace
+let storageRoot = '.issync';
+
+export function setStorageRoot(root: string): void {
+  storageRoot = root;
+}
+
+export function getStorageRoot(): string {
+  return storageRoot;
+}
+
+const issuesDir = () => join(storageRoot, 'issues');
+const draftsDir = () => join(storageRoot, 'drafts');
+const baseDir = () => join(storageRoot, 'base');
+const commentsDir = () => join(storageRoot, 'comments');
+const archiveDir = () => join(storageRoot, 'archive');
+const stateFile = () => join(storageRoot, 'state.json');
+const configFile = () => join(storageRoot, 'config.json');
+const milestonesFile = () => join(storageRoot, 'milestones.yml');
+const labelsFile = () => join(storageRoot, 'labels.yml');
 
 export async function ensureStorageDir(): Promise<void> {
-  await mkdir(ISSUES_DIR, { recursive: true });
+  await mkdir(issuesDir(), { recursive: true });
+  await mkdir(baseDir(), { recursive: true });
+}
+
+const DEFAULT_PATH_TEMPLATE = '{number}.md';
+const TEMPLATE_FIELDS = ['number', 'slug', 'state', 'milestone'];
+
+// where each issue file lives (relative to issues/), found by the number in its
+// frontmatter so any layout works. built on first use and kept up to date by
+// saveIssue and archiveIssue
+let issueIndex: { root: string; paths: Map<number, string> } | null = null;
+
+export function checkPathTemplate(template: string): void {
+  if (!template.includes('{number}')) {
+    throw new Error(`path_template "${template}" must include {number}`);
+  }
+  if (!template.endsWith('.md')) {
+    throw new Error(`path_template "${template}" must end with .md`);
+  }
+
+  for (const [, field] of template.matchAll(/\{([^}]*)\}/g)) {
+    if (!TEMPLATE_FIELDS.includes(field)) {
+      throw new Error(`unknown field {${field}} in path_template (expected ${TEMPLATE_FIELDS.map(f => `{${f}}`).join(', ')})`);
+    }
+  }
+}
+
+// e.g. {state}/{milestone}/{number}-{slug}.md
+async function issuePath(issue: Issue): Promise<string> {
+  const template = (await loadConfig()).path_template || DEFAULT_PATH_TEMPLATE;
+  checkPathTemplate(template);
+
+  const values: Record<string, string> = {
+    number: String(issue.number),
+    slug: slugify(issue.title, 'issue'),
+    state: issue.state,
+    milestone: issue.milestone ? slugify(issue.milestone, 'milestone') : 'no-milestone',
+  };
+  return template.replace(/\{([^}]*)\}/g, (_, field) => values[field]);
+}
+
+// paths of the files under dir, relative to it. readdir's own recursive option
+// is silently ignored before node 18.17
+async function listFiles(dir: string, prefix: string = ''): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await readdir(join(dir, prefix), { withFileTypes: true })) {
+    const path = join(prefix, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(dir, path));
+    } else {
+      files.push(path);
+    }
+  }
+  return files;
+}
+
+async function buildIssueIndex(): Promise<Map<number, string>> {
+  const paths = new Map<number, string>();
+
+  let files: string[];
+  try {
+    files = await listFiles(issuesDir());
+  } catch {
+    return paths;
+  }
+
+  for (const file of files.filter(f => f.endsWith('.md')).sort()) {
+    let number: unknown;
+    try {
+      number = matter(await readFile(join(issuesDir(), file), 'utf-8')).data.number;
+    } catch {
+      continue;
+    }
+
+    if (typeof number !== 'number') {
+      console.warn(`warning: ${join(issuesDir(), file)} has no issue number in its frontmatter (skipping)`);
+      continue;
+    }
+    if (paths.has(number)) {
+      console.warn(`warning: issue #${number} is in both ${paths.get(number)} and ${file}, using the first`);
+      continue;
+    }
+    paths.set(number, file);
+  }
+
+  return paths;
+}
+
+async function getIssueIndex(refresh: boolean = false): Promise<Map<number, string>> {
+  if (refresh || !issueIndex || issueIndex.root !== storageRoot) {
+    issueIndex = { root: storageRoot, paths: await buildIssueIndex() };
+  }
+  return issueIndex.paths;
+}
+
+// path of an issue's local file, null if there isn't one
+export async function findIssueFile(number: number): Promise<string | null> {
+  const path = (await getIssueIndex()).get(number);
+  return path ? join(issuesDir(), path) : null;
+}
+
+// removes directories left empty by a rename, up to issues/
+async function removeEmptyDirs(dir: string): Promise<void> {
+  while (relative(issuesDir(), dir) !== '' && !relative(issuesDir(), dir).startsWith('..')) {
+    try {
+      await rmdir(dir);
+    } catch {
+      return;
+    }
+    dir = dirname(dir);
+  }
 }
 
 export async function saveIssue(issue: Issue): Promise<void> {
-  const filename = join(ISSUES_DIR, `${issue.number}.md`);
+  const index = await getIssueIndex();
+  const path = await issuePath(issue);
+  const filename = join(issuesDir(), path);
   const frontmatter: any = {
     number: issue.number,
     title: issue.title,
@@ -31,53 +162,378 @@ export async function saveIssue(issue: Issue): Promise<void> {
     frontmatter.project_fields = issue.project_fields;
   }
 
+  if (issue.gitlab) {
+    frontmatter.gitlab = issue.gitlab;
+  }
+
   const content = matter.stringify(issue.body, frontmatter);
+  await mkdir(dirname(filename), { recursive: true });
   await writeFile(filename, content, 'utf-8');
+
+  // title, state or milestone changed where the layout depends on them
+  const previous = index.get(issue.number);
+  if (previous && previous !== path) {
+    await removeIfExists(join(issuesDir(), previous));
+    await removeEmptyDirs(dirname(join(issuesDir(), previous)));
+  }
+  index.set(issue.number, path);
+}
+
+function parseIssue(content: string): Issue {
+  const { data, content: body } = matter(content);
+
+  const issue: Issue = {
+    number: data.number,
+    title: data.title,
+    body: body.trim(),
+    state: data.state,
+    labels: data.labels || [],
+    assignees: data.assignees || [],
+    milestone: data.milestone || null,
+    created_at: data.created_at,
+    updated_at: data.updated_at,
+    closed_at: data.closed_at || null,
+    url: data.url || '',
+  };
+
+  if (data.project_fields) {
+    issue.project_fields = data.project_fields;
+  }
+
+  if (data.gitlab) {
+    // an unquoted due date is parsed as a Date
+    const dueDate = data.gitlab.due_date instanceof Date
+      ? data.gitlab.due_date.toISOString().split('T')[0]
+      : data.gitlab.due_date;
+    issue.gitlab = {
+      weight: data.gitlab.weight ?? null,
+      due_date: dueDate || null,
+    };
+  }
+
+  return issue;
 }
 
 export async function loadIssue(number: number): Promise<Issue | null> {
-  const filename = join(ISSUES_DIR, `${number}.md`);
+  const filename = await findIssueFile(number);
+  if (!filename) {
+    return null;
+  }
+
+  try {
+    const issue = parseIssue(await readFile(filename, 'utf-8'));
+    if (issue.number === number) {
+      return issue;
+    }
+  } catch {
+    // moved or deleted since the index was built
+  }
+
+  const path = (await getIssueIndex(true)).get(number);
+  if (!path) {
+    return null;
+  }
+
+  try {
+    return parseIssue(await readFile(join(issuesDir(), path), 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+// moves files that aren't where path_template puts them, e.g. after the template
+// changed or a title was edited locally. returns how many were moved
+export async function relocateIssues(): Promise<number> {
+  const index = await getIssueIndex(true);
+  let moved = 0;
+
+  for (const [number, current] of index) {
+    const issue = await loadIssue(number);
+    if (!issue) {
+      continue;
+    }
+
+    const path = await issuePath(issue);
+    if (path === current) {
+      continue;
+    }
+
+    if ([...index.values()].includes(path)) {
+      console.warn(`warning: can't move issue #${number} to ${path}, another file is already there`);
+      continue;
+    }
+
+    await mkdir(dirname(join(issuesDir(), path)), { recursive: true });
+    await rename(join(issuesDir(), current), join(issuesDir(), path));
+    await removeEmptyDirs(dirname(join(issuesDir(), current)));
+    index.set(number, path);
+    moved++;
+  }
+
+  return moved;
+}
+
+// rescans issues/, so files added, moved or removed by hand are picked up
+export async function loadAllLocalIssues(): Promise<Issue[]> {
+  const index = await getIssueIndex(true);
+
+  const issues = await Promise.all(
+    [...index.keys()].map(n => loadIssue(n))
+  );
+
+  return issues.filter((i): i is Issue => i !== null);
+}
+
+function slugify(title: string, fallback: string = 'draft'): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 50)
+    .replace(/-+$/, '');
+  return slug || fallback;
+}
+
+export async function saveDraft(draft: Omit<Draft, 'id'>): Promise<string> {
+  await mkdir(draftsDir(), { recursive: true });
+
+  // pick a filename that doesn't clobber an existing draft
+  const existing = new Set(await readdir(draftsDir()));
+  const base = slugify(draft.title);
+  let id = base;
+  for (let n = 2; existing.has(`${id}.md`); n++) {
+    id = `${base}-${n}`;
+  }
+
+  const frontmatter: any = {
+    title: draft.title,
+    labels: draft.labels,
+    assignees: draft.assignees,
+    milestone: draft.milestone,
+  };
 
+  if (draft.project_fields && Object.keys(draft.project_fields).length > 0) {
+    frontmatter.project_fields = draft.project_fields;
+  }
+
+  const filename = join(draftsDir(), `${id}.md`);
+  await writeFile(filename, matter.stringify(draft.body, frontmatter), 'utf-8');
+  return filename;
+}
+
+export async function loadDrafts(): Promise<Draft[]> {
+  let files: string[];
   try {
-    const content = await readFile(filename, 'utf-8');
+    files = (await readdir(draftsDir())).filter(f => f.endsWith('.md')).sort();
+  } catch {
+    return [];
+  }
+
+  const drafts: Draft[] = [];
+  for (const file of files) {
+    const content = await readFile(join(draftsDir(), file), 'utf-8');
     const { data, content: body } = matter(content);
 
-    const issue: Issue = {
-      number: data.number,
-      title: data.title,
+    const draft: Draft = {
+      id: file.replace(/\.md$/, ''),
+      title: data.title || '',
       body: body.trim(),
-      state: data.state,
       labels: data.labels || [],
       assignees: data.assignees || [],
       milestone: data.milestone || null,
-      created_at: data.created_at,
-      updated_at: data.updated_at,
-      closed_at: data.closed_at || null,
-      url: data.url || '',
     };
 
     if (data.project_fields) {
-      issue.project_fields = data.project_fields;
+      draft.project_fields = data.project_fields;
+    }
+
+    drafts.push(draft);
+  }
+
+  return drafts;
+}
+
+export async function removeDraft(id: string): Promise<void> {
+  await unlink(join(draftsDir(), `${id}.md`));
+}
+
+// the last-synced version of an issue, used as the common ancestor when merging
+export async function saveBase(issue: Issue): Promise<void> {
+  await mkdir(baseDir(), { recursive: true });
+  await writeFile(join(baseDir(), `${issue.number}.json`), JSON.stringify(issue, null, 2), 'utf-8');
+}
+
+export async function loadBase(number: number): Promise<Issue | null> {
+  try {
+    const content = await readFile(join(baseDir(), `${number}.json`), 'utf-8');
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+async function removeIfExists(path: string): Promise<void> {
+  try {
+    await unlink(path);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
     }
+  }
+}
 
-    return issue;
+// drops the base snapshots of an issue that's no longer tracked
+export async function removeBase(number: number): Promise<void> {
+  await removeIfExists(join(baseDir(), `${number}.json`));
+  await removeIfExists(join(baseDir(), `${number}.comments.json`));
+}
+
+// moves an issue file (and its comments) out of issues/ into archive/, noting why
+// in the frontmatter, and drops its base snapshots. returns the archived path
+export async function archiveIssue(
+  number: number,
+  note: { reason: string; transferred_to?: string }
+): Promise<string | null> {
+  const source = await findIssueFile(number);
+  const target = join(archiveDir(), `${number}.md`);
+  if (!source) {
+    return null;
+  }
+
+  let content: string;
+  try {
+    content = await readFile(source, 'utf-8');
   } catch {
     return null;
   }
+
+  const { data, content: body } = matter(content);
+  data.archived_at = new Date().toISOString();
+  data.archived_reason = note.reason;
+  if (note.transferred_to) {
+    data.transferred_to = note.transferred_to;
+  }
+
+  await mkdir(archiveDir(), { recursive: true });
+  await writeFile(target, matter.stringify(body, data), 'utf-8');
+  await unlink(source);
+  await removeEmptyDirs(dirname(source));
+  issueIndex?.paths.delete(number);
+
+  try {
+    await rename(join(commentsDir(), `${number}.md`), join(archiveDir(), `${number}.comments.md`));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+
+  await removeBase(number);
+
+  return target;
 }
 
-export async function loadAllLocalIssues(): Promise<Issue[]> {
+// undoes archiveIssue for a reopened issue: the archived copy is dropped, since
+// the caller saves the remote one, and its comments move back to comments/
+export async function restoreArchived(number: number): Promise<void> {
+  await removeIfExists(join(archiveDir(), `${number}.md`));
+
+  await mkdir(commentsDir(), { recursive: true });
+  try {
+    await rename(join(archiveDir(), `${number}.comments.md`), join(commentsDir(), `${number}.md`));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+const COMMENT_HEADER = /^<!-- comment (.*) -->$/;
+const NEW_COMMENT_HEADER = /^<!-- new comment -->$/;
+
+function formatComments(comments: Comment[]): string {
+  return comments.map(c => {
+    const header = c.id !== undefined
+      ? `<!-- comment id=${c.id} author=${c.author} created_at=${c.created_at} updated_at=${c.updated_at} -->`
+      : '<!-- new comment -->';
+    return `${header}\n\n${c.body}\n`;
+  }).join('\n');
+}
+
+function parseComments(content: string): Comment[] {
+  const comments: Comment[] = [];
+  let current: Comment | null = null;
+  let lines: string[] = [];
+
+  const finish = () => {
+    if (current) {
+      current.body = lines.join('\n').trim();
+      comments.push(current);
+    }
+    lines = [];
+  };
+
+  for (const line of content.split('\n')) {
+    const header = line.match(COMMENT_HEADER);
+    if (header || NEW_COMMENT_HEADER.test(line)) {
+      finish();
+      const attrs: Record<string, string> = {};
+      for (const pair of header?.[1].split(/\s+/) || []) {
+        const eq = pair.indexOf('=');
+        if (eq > 0) attrs[pair.slice(0, eq)] = pair.slice(eq + 1);
+      }
+      current = {
+        body: '',
+        author: attrs.author || null,
+        created_at: attrs.created_at || null,
+        updated_at: attrs.updated_at || null,
+      };
+      if (attrs.id) {
+        current.id = parseInt(attrs.id, 10);
+      }
+      continue;
+    }
+    lines.push(line);
+  }
+  finish();
+
+  return comments;
+}
+
+export async function loadComments(number: number): Promise<Comment[] | null> {
   try {
-    const files = await readdir(ISSUES_DIR);
-    const issueNumbers = files
-      .filter(f => f.endsWith('.md'))
-      .map(f => parseInt(f.replace('.md', ''), 10));
+    const content = await readFile(join(commentsDir(), `${number}.md`), 'utf-8');
+    return parseComments(content);
+  } catch {
+    return null;
+  }
+}
 
-    const issues = await Promise.all(
-      issueNumbers.map(n => loadIssue(n))
-    );
+export async function saveComments(number: number, comments: Comment[]): Promise<void> {
+  await mkdir(commentsDir(), { recursive: true });
+  await writeFile(join(commentsDir(), `${number}.md`), formatComments(comments), 'utf-8');
+}
 
-    return issues.filter((i): i is Issue => i !== null);
+export async function listCommentFiles(): Promise<number[]> {
+  try {
+    const files = await readdir(commentsDir());
+    return files
+      .filter(f => /^\d+\.md$/.test(f))
+      .map(f => parseInt(f, 10));
+  } catch {
+    return [];
+  }
+}
+
+export async function saveCommentsBase(number: number, comments: Comment[]): Promise<void> {
+  await mkdir(baseDir(), { recursive: true });
+  await writeFile(join(baseDir(), `${number}.comments.json`), JSON.stringify(comments, null, 2), 'utf-8');
+}
+
+export async function loadCommentsBase(number: number): Promise<Comment[]> {
+  try {
+    const content = await readFile(join(baseDir(), `${number}.comments.json`), 'utf-8');
+    return JSON.parse(content);
   } catch {
     return [];
   }
@@ -85,7 +541,7 @@ export async function loadAllLocalIssues(): Promise<Issue[]> {
 
 export async function loadSyncState(): Promise<SyncState> {
   try {
-    const content = await readFile(STATE_FILE, 'utf-8');
+    const content = await readFile(stateFile(), 'utf-8');
     return JSON.parse(content);
   } catch {
     return { issues: {} };
@@ -93,12 +549,108 @@ export async function loadSyncState(): Promise<SyncState> {
 }
 
 export async function saveSyncState(state: SyncState): Promise<void> {
-  await writeFile(STATE_FILE, JSON.stringify(state, null, 2), 'utf-8');
+  await mkdir(storageRoot, { recursive: true });
+  await writeFile(stateFile(), JSON.stringify(state, null, 2), 'utf-8');
+}
+
+export async function loadMilestones(): Promise<Milestone[] | null> {
+  let content: string;
+  try {
+    content = await readFile(milestonesFile(), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const data = YAML.parse(content) || [];
+  if (!Array.isArray(data)) {
+    throw new Error(`${milestonesFile()} must be a list of milestones`);
+  }
+
+  return data.map((m: any, idx: number) => {
+    if (!m?.title) {
+      throw new Error(`${milestonesFile()}: entry ${idx + 1} has no title`);
+    }
+    if (m.state && m.state !== 'open' && m.state !== 'closed') {
+      throw new Error(`${milestonesFile()}: milestone "${m.title}" has invalid state "${m.state}"`);
+    }
+
+    const milestone: Milestone = {
+      title: String(m.title),
+      state: m.state || 'open',
+      description: m.description ?? null,
+      due_on: m.due_on ? String(m.due_on) : null,
+    };
+    if (m.number !== undefined) {
+      milestone.number = m.number;
+    }
+    return milestone;
+  });
+}
+
+export async function saveMilestones(milestones: Milestone[]): Promise<void> {
+  const data = milestones.map(m => ({
+    ...(m.number !== undefined ? { number: m.number } : {}),
+    title: m.title,
+    state: m.state,
+    due_on: m.due_on,
+    description: m.description,
+  }));
+  await writeFile(milestonesFile(), YAML.stringify(data), 'utf-8');
+}
+
+export async function loadLabels(): Promise<Label[] | null> {
+  let content: string;
+  try {
+    content = await readFile(labelsFile(), 'utf-8');
+  } catch {
+    return null;
+  }
+
+  const data = YAML.parse(content) || [];
+  if (!Array.isArray(data)) {
+    throw new Error(`${labelsFile()} must be a list of labels`);
+  }
+
+  return data.map((l: any, idx: number) => {
+    if (!l?.name) {
+      throw new Error(`${labelsFile()}: entry ${idx + 1} has no name`);
+    }
+
+    // unquoted colours like 000000 come back from yaml as numbers
+    const color = typeof l.color === 'number'
+      ? String(l.color).padStart(6, '0')
+      : String(l.color || '').replace(/^#/, '');
+    if (!/^[0-9a-fA-F]{6}$/.test(color)) {
+      throw new Error(`${labelsFile()}: label "${l.name}" has invalid color "${l.color}" (expected 6 hex digits)`);
+    }
+
+    const label: Label = {
+      name: String(l.name),
+      color: color.toLowerCase(),
+      description: l.description ?? null,
+    };
+    if (l.id !== undefined) {
+      label.id = l.id;
+    }
+    return label;
+  });
+}
+
+export async function saveLabels(labels: Label[]): Promise<void> {
+  const data = labels.map(l => ({
+    ...(l.id !== undefined ? { id: l.id } : {}),
+    name: l.name,
+    color: l.color,
+    description: l.description,
+  }));
+  await writeFile(labelsFile(), YAML.stringify(data), 'utf-8');
 }
 
 export async function getLocalFileModTime(number: number): Promise<string | null> {
-  const filename = join(ISSUES_DIR, `${number}.md`);
-  const { stat } = await import('fs/promises');
+  const filename = await findIssueFile(number);
+  if (!filename) {
+    return null;
+  }
 
   try {
     const stats = await stat(filename);
@@ -108,15 +660,58 @@ export async function getLocalFileModTime(number: number): Promise<string | null
   }
 }
 
-export async function loadConfig(): Promise<{ project?: ProjectConfig }> {
+// hash of the content that matters for syncing, independent of key order,
+// label/assignee order, line endings and timestamps
+export function contentHash(issue: Issue): string {
+  const projectFields: Record<string, unknown> = {};
+  for (const key of Object.keys(issue.project_fields || {}).sort()) {
+    const value = issue.project_fields![key];
+    if (value !== null && value !== undefined) {
+      projectFields[key] = value;
+    }
+  }
+
+  const canonical: Record<string, unknown> = {
+    title: (issue.title || '').trim(),
+    state: issue.state,
+    labels: [...new Set(issue.labels)].sort(),
+    assignees: [...new Set(issue.assignees)].sort(),
+    milestone: issue.milestone || null,
+    project_fields: projectFields,
+    body: (issue.body || '').replace(/\r\n/g, '\n').trim(),
+  };
+
+  // only added when present so hashes of github issues stay the same
+  if (issue.gitlab) {
+    canonical.gitlab = {
+      weight: issue.gitlab.weight ?? null,
+      due_date: issue.gitlab.due_date || null,
+    };
+  }
+
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+export async function isLocallyModified(issue: Issue, syncInfo: SyncState['issues'][number]): Promise<boolean> {
+  if (syncInfo.content_hash) {
+    return contentHash(issue) !== syncInfo.content_hash;
+  }
+
+  // state written before content hashes existed, fall back to file mtime
+  const fileModTime = await getLocalFileModTime(issue.number);
+  return fileModTime ? fileModTime > syncInfo.last_synced_at : false;
+}
+
+export async function loadConfig(): Promise<Config> {
   try {
-    const content = await readFile(CONFIG_FILE, 'utf-8');
+    const content = await readFile(configFile(), 'utf-8');
     return JSON.parse(content);
   } catch {
     return {};
   }
 }
 
-export async function saveConfig(config: { project?: ProjectConfig }): Promise<void> {
-  await writeFile(CONFIG_FILE, JSON.stringify(config, null, 2), 'utf-8');
+export async function saveConfig(config: Config): Promise<void> {
+  await mkdir(storageRoot, { recursive: true });
+  await writeFile(configFile(), JSON.stringify(config, null, 2), 'utf-8');
 }
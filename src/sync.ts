@@ -1,9 +1,4 @@
-import {
-  fetchIssues,
-  updateIssue,
-  createIssue,
-  getCurrentRepo,
-} from './gh.js';
+import { getProvider, fetchIssueBatch, fetchIssueStates, locateIssue, type IssueProvider } from './provider.js';
 import {
   ensureStorageDir,
   saveIssue,
@@ -11,25 +6,77 @@ import {
   loadAllLocalIssues,
   loadSyncState,
   saveSyncState,
-  getLocalFileModTime,
+  isLocallyModified,
+  contentHash,
   loadConfig,
   saveConfig,
+  saveDraft,
+  loadDrafts,
+  removeDraft,
+  saveBase,
+  loadBase,
+  archiveIssue,
+  restoreArchived,
+  relocateIssues,
 } from './storage.js';
-import {
-  getProjectFields,
-  getProjectItemForIssue,
-  extractProjectFieldValues,
-  updateProjectField,
-  getOrCreateProjectConfig,
-  getProjectItemsForIssues,
-  getProjectId,
-} from './project.js';
-import type { Issue, ConflictInfo } from './types.js';
-
-export async function syncDown(includeClosed: boolean = false, fullSync: boolean = false, syncProjects: boolean = false): Promise<void> {
+import { extractProjectFieldValues } from './project.js';
+import { mapLimit, getConcurrency } from './request.js';
+import { mergeIssue, changedFields, sameSet, sameValue } from './merge.js';
+import { pullMilestones, pushMilestones } from './milestones.js';
+import { pullLabels, pushLabels } from './labels.js';
+import { pullComments, pushComments } from './comments.js';
+import { getDeletePolicy, removedLocally, pushDeletions } from './archive.js';
+import { updateSearchIndex } from './search.js';
+import type {
+  Issue,
+  Draft,
+  SyncState,
+  ConflictInfo,
+  DownSummary,
+  UpSummary,
+  ProjectConfig,
+  ProjectField,
+  ProjectFieldValue,
+  ProjectItem,
+} from './types.js';
+
+// how often an incremental `down` looks for deleted and transferred issues
+const STATE_CHECK_INTERVAL_MS = 24 * 60 * 60 * 1000;
+
+export function getLastSyncTime(state: SyncState): string | undefined {
+  const syncTimes = Object.values(state.issues).map(s => s.last_synced_at).filter(Boolean);
+  return syncTimes.sort().pop();
+}
+
+export async function fetchRemoteIssue(repo: string, number: number, itemId?: string): Promise<Issue | null> {
+  const provider = await getProvider();
+  const remote = await provider.fetchIssue(repo, number);
+  if (!remote || !itemId) {
+    return remote;
+  }
+
+  // only use an already configured project, a single lookup shouldn't trigger auto-detection
+  const { project } = await loadConfig();
+  if (project?.enabled && project.project_number && project.owner && project.cached_fields) {
+    const item = (await provider.getProjectItems(project, repo, [number])).get(number);
+    if (item) {
+      remote.project_fields = extractProjectFieldValues(item, project.cached_fields);
+    }
+  }
+
+  return remote;
+}
+
+export async function syncDown(
+  includeClosed: boolean = false,
+  fullSync: boolean = false,
+  syncProjects: boolean = false,
+  syncComments: boolean = false
+): Promise<DownSummary> {
   console.log('syncing issues from github...');
 
-  const repo = await getCurrentRepo();
+  const provider = await getProvider();
+  const repo = await provider.getCurrentRepo();
   console.log(`repository: ${repo}`);
 
   await ensureStorageDir();
@@ -39,62 +86,86 @@ export async function syncDown(includeClosed: boolean = false, fullSync: boolean
   // calculate last sync time for incremental fetch
   let lastSync: string | undefined;
   if (!fullSync) {
-    const syncTimes = Object.values(state.issues).map(s => s.last_synced_at).filter(Boolean);
-    if (syncTimes.length > 0) {
-      lastSync = syncTimes.sort().pop();
-      console.log(`fetching issues updated since ${lastSync?.split('T')[0]}...`);
+    lastSync = getLastSyncTime(state);
+    if (lastSync) {
+      console.log(`fetching issues updated since ${lastSync.split('T')[0]}...`);
     }
   }
 
-  const remoteIssues = await fetchIssues(repo, includeClosed, lastSync);
-  console.log(`fetched ${remoteIssues.length} issue(s)`);
-
-  // auto-detect or load project config
-  const [owner, repoName] = repo.split('/');
-
-  // fetch project data if --projects flag is set
-  let projectFields = null;
-  let projectItemsMap = null;
+  // auto-detect or load project config if --projects flag is set
   let projectConfig = null;
+  let projectFields = null;
 
   if (syncProjects) {
-    projectConfig = await getOrCreateProjectConfig(owner, repo);
+    projectConfig = await provider.getProjectConfig(repo);
   }
 
   if (syncProjects && projectConfig?.enabled && projectConfig.project_number && projectConfig.owner) {
     try {
       console.log(`fetching project data from project #${projectConfig.project_number}...`);
-      projectFields = await getProjectFields(
-        projectConfig.project_number,
-        projectConfig.owner,
-        projectConfig.cached_fields,
-        projectConfig.fields_cached_at
-      );
+      projectFields = await provider.getProjectFields(projectConfig);
 
       // update cache if fields were fetched
       if (!projectConfig.cached_fields || projectFields !== projectConfig.cached_fields) {
         projectConfig.cached_fields = projectFields;
         projectConfig.fields_cached_at = new Date().toISOString();
-        await saveConfig({ project: projectConfig });
+        await saveConfig({ ...await loadConfig(), project: projectConfig });
       }
-
-      // fetch project items for our specific issues (efficient approach)
-      const issueNumbers = remoteIssues.map(i => i.number);
-      projectItemsMap = await getProjectItemsForIssues(
-        projectConfig.project_number!,
-        projectConfig.owner!,
-        owner,
-        repoName,
-        issueNumbers
-      );
-
-      console.log(`fetched project data for ${projectItemsMap.size} issues`);
     } catch (error) {
       console.warn(`warning: failed to fetch project data: ${error}`);
     }
   }
 
+  // issues and their project items come back together. incremental syncs include
+  // closed issues too, otherwise tracked issues closed since never show up
+  const batch = await fetchIssueBatch(provider, repo, includeClosed || !!lastSync, lastSync, projectFields ? projectConfig : null);
+  const untracked = new Set(state.untracked || []);
+  const remoteIssues = batch.issues
+    .filter(i => includeClosed || i.state === 'open' || state.issues[i.number])
+    .filter(i => !untracked.has(i.number))
+    // archived issues stay archived unless they're reopened
+    .filter(i => !state.archived?.[i.number] || i.state === 'open');
+  const projectItemsMap = projectFields ? batch.projectItems : null;
+  console.log(`fetched ${remoteIssues.length} issue(s)`);
+  if (projectItemsMap) {
+    console.log(`fetched project data for ${projectItemsMap.size} issues`);
+  }
+
+  try {
+    await pullMilestones(repo, state);
+  } catch (error) {
+    console.warn(`warning: failed to sync milestones: ${error}`);
+  }
+
+  // before the issue loop, so label renames are applied to local files first
+  try {
+    await pullLabels(repo, state);
+  } catch (error) {
+    console.warn(`warning: failed to sync labels: ${error}`);
+  }
+
+  const report = await reconcileTracked(provider, repo, state, remoteIssues, fullSync);
+
   for (const issue of remoteIssues) {
+    if (state.archived?.[issue.number]) {
+      await restoreArchived(issue.number);
+      delete state.archived[issue.number];
+      report.push(`reopened: #${issue.number} ${issue.title}, restored from archive`);
+    }
+  }
+
+  // with a delete policy, locally deleted files stay deleted until `up` applies it
+  const deleted = new Set(await getDeletePolicy() === 'ignore' ? [] : await removedLocally(state));
+
+  const pending: number[] = [];
+  const conflicted: number[] = [];
+  const newIssues = remoteIssues.filter(i => !state.issues[i.number]).map(i => i.number);
+
+  for (const issue of remoteIssues) {
+    if (deleted.has(issue.number)) {
+      continue;
+    }
+
     // add project field values if available
     if (projectItemsMap && projectFields) {
       const projectItem = projectItemsMap.get(issue.number);
@@ -113,156 +184,509 @@ export async function syncDown(includeClosed: boolean = false, fullSync: boolean
       }
     }
 
-    await saveIssue(issue);
+    const result = await storeRemoteIssue(issue, state, !projectItemsMap, report);
+    if (result === 'conflict') {
+      conflicted.push(issue.number);
+      continue;
+    }
+    if (result === 'pending') {
+      pending.push(issue.number);
+    }
 
-    state.issues[issue.number] = {
-      ...state.issues[issue.number],
-      github_updated_at: issue.updated_at,
-      local_updated_at: issue.updated_at,
-      last_synced_at: new Date().toISOString(),
-    };
+    if (batch.nodeIds.has(issue.number)) {
+      state.issues[issue.number].node_id = batch.nodeIds.get(issue.number);
+    }
+  }
+
+  const moved = await relocateIssues();
+  if (moved > 0) {
+    console.log(`moved ${moved} issue file(s) to match path_template`);
+  }
+
+  if (syncComments) {
+    try {
+      await pullComments(repo, state, fullSync, newIssues);
+    } catch (error) {
+      console.warn(`warning: failed to sync comments: ${error}`);
+    }
   }
 
   await saveSyncState(state);
+
+  try {
+    await updateSearchIndex();
+  } catch (error) {
+    console.warn(`warning: failed to update the search index: ${error}`);
+  }
+
+  if (report.length > 0) {
+    console.log('\nremote state changes:');
+    for (const line of report) {
+      console.log(`  ${line}`);
+    }
+    console.log('');
+  }
+
+  if (pending.length > 0) {
+    console.log(`${pending.length} issue(s) with local changes kept, run \`issync up\` to push them`);
+  }
+  if (conflicted.length > 0) {
+    console.log(`${conflicted.length} issue(s) conflict with remote changes, run \`issync conflicts\` to review`);
+  }
+  if (deleted.size > 0) {
+    console.log(`${deleted.size} issue(s) deleted locally, run \`issync up\` to apply the delete policy`);
+  }
+
   console.log('sync complete');
+
+  return {
+    fetched: remoteIssues.length,
+    added: newIssues.length,
+    pending: pending.length,
+    conflicted: conflicted.length,
+    changes: report,
+  };
 }
 
-export async function syncUp(force: boolean = false, dryRun: boolean = false, syncProjects: boolean = false): Promise<void> {
+// saves a remote issue locally, never overwriting local edits: they're merged with
+// the remote changes where possible ('pending'), otherwise the local file is left
+// alone ('conflict'). state changes are added to the report
+export async function storeRemoteIssue(
+  issue: Issue,
+  state: SyncState,
+  keepProjectFields: boolean,
+  report: string[]
+): Promise<'saved' | 'pending' | 'conflict'> {
+  const syncInfo = state.issues[issue.number];
+  const local = syncInfo ? await loadIssue(issue.number) : null;
+  const base = syncInfo ? await loadBase(issue.number) : null;
+  let toSave = issue;
+  let result: 'saved' | 'pending' = 'saved';
+
+  if (base && base.state !== issue.state) {
+    report.push(`${issue.state === 'closed' ? 'closed' : 'reopened'}: #${issue.number} ${issue.title}`);
+  }
+
+  // project fields weren't fetched this time, so keep the last synced values
+  if (keepProjectFields && base?.project_fields) {
+    issue.project_fields = base.project_fields;
+  }
+
+  if (local && syncInfo && await isLocallyModified(local, syncInfo)) {
+    if (!base) {
+      console.log(`⚠ issue #${issue.number} has local changes and no base snapshot, left untouched`);
+      return 'conflict';
+    }
+
+    const { merged, conflicts } = mergeIssue(base, local, issue);
+    if (conflicts.length > 0) {
+      const fields = conflicts.map(c => c.field).join(', ');
+      console.log(`⚠ conflict in issue #${issue.number} (${fields}), local file left untouched`);
+      return 'conflict';
+    }
+
+    if (changedFields(base, issue).length > 0) {
+      console.log(`merged remote changes into locally modified issue #${issue.number}`);
+    }
+    toSave = merged;
+    result = 'pending';
+  }
+
+  await saveIssue(toSave);
+  await saveBase(issue);
+
+  state.issues[issue.number] = {
+    ...state.issues[issue.number],
+    github_updated_at: issue.updated_at,
+    local_updated_at: issue.updated_at,
+    last_synced_at: new Date().toISOString(),
+    content_hash: contentHash(issue),
+  };
+
+  return result;
+}
+
+// tracked issues the fetch didn't return are either unchanged, or were closed,
+// transferred or deleted without the incremental fetch noticing. closed ones are
+// added to remoteIssues so they merge like any other update, transferred and
+// deleted ones are archived and untracked. returns a line per change.
+// closing an issue bumps updated_at, so incremental fetches see closures on their
+// own: the scan of every issue's state only runs on full syncs and otherwise at
+// most once per STATE_CHECK_INTERVAL_MS, to catch deletions and transfers
+async function reconcileTracked(
+  provider: IssueProvider,
+  repo: string,
+  state: SyncState,
+  remoteIssues: Issue[],
+  fullSync: boolean
+): Promise<string[]> {
+  const fetched = new Set(remoteIssues.map(i => i.number));
+  const unseen = Object.keys(state.issues).map(Number).filter(n => !fetched.has(n));
+  if (unseen.length === 0) {
+    // every tracked issue was just fetched, which is as good as a scan
+    state.states_checked_at = new Date().toISOString();
+    return [];
+  }
+
+  const checkedAt = state.states_checked_at ? Date.parse(state.states_checked_at) : 0;
+  if (!fullSync && Date.now() - checkedAt < STATE_CHECK_INTERVAL_MS) {
+    return [];
+  }
+
+  let states: Map<number, Issue['state']>;
+  try {
+    states = await fetchIssueStates(provider, repo);
+  } catch (error) {
+    console.warn(`warning: failed to check tracked issues for remote changes: ${error}`);
+    return [];
+  }
+  state.states_checked_at = new Date().toISOString();
+
+  const report: string[] = [];
+
+  for (const number of unseen) {
+    const remoteState = states.get(number);
+    if (remoteState) {
+      const base = await loadBase(number);
+      if (base && base.state !== remoteState) {
+        const issue = await provider.fetchIssue(repo, number);
+        if (issue) {
+          remoteIssues.push(issue);
+        }
+      }
+      continue;
+    }
+
+    const location = await locateIssue(provider, repo, number);
+
+    if (location.status === 'found') {
+      remoteIssues.push(location.issue);
+      continue;
+    }
+
+    if (location.status === 'missing') {
+      report.push(`not found: #${number} (deleted or no longer accessible), local file left in place`);
+      continue;
+    }
+
+    report.push(await archiveRemoved(number, state, location.status === 'transferred' ? location : undefined));
+  }
+
+  return report;
+}
+
+// archives a tracked issue that was deleted or transferred away and stops tracking
+// it, returning the report line
+export async function archiveRemoved(
+  number: number,
+  state: SyncState,
+  transferred?: { repo: string; number: number }
+): Promise<string> {
+  const local = await loadIssue(number);
+  const modified = local ? await isLocallyModified(local, state.issues[number]) : false;
+  const transferredTo = transferred ? `${transferred.repo}#${transferred.number}` : undefined;
+  const archived = await archiveIssue(number, { reason: transferred ? 'transferred' : 'deleted', transferred_to: transferredTo });
+  delete state.issues[number];
+
+  if (modified) {
+    console.warn(`warning: issue #${number} had unpushed local changes, they're kept in the archived copy`);
+  }
+  if (transferred) {
+    console.log(`to keep syncing #${number}, add ${transferred.repo} with \`issync workspace add ${transferred.repo}\``);
+  }
+
+  const where = archived ? `, archived to ${archived}` : '';
+  return transferredTo
+    ? `transferred: #${number} to ${transferredTo}${where}`
+    : `deleted: #${number}${where}`;
+}
+
+export async function syncUp(
+  force: boolean = false,
+  dryRun: boolean = false,
+  syncProjects: boolean = false,
+  strictLabels: boolean = false,
+  syncComments: boolean = false
+): Promise<UpSummary> {
   console.log(dryRun ? 'checking for local changes...' : 'syncing local changes to github...');
 
-  const repo = await getCurrentRepo();
+  const provider = await getProvider();
+  const repo = await provider.getCurrentRepo();
   console.log(`repository: ${repo}`);
 
-  const localIssues = await loadAllLocalIssues();
-  const remoteIssues = await fetchIssues(repo, true);
   const state = await loadSyncState();
 
-  // auto-detect or load project config
-  const [owner, repoName] = repo.split('/');
+  // milestones and labels go first so issues can use newly created ones,
+  // and label renames are applied to local files before they're loaded.
+  // milestone numbers come back too, so issues don't look them up one by one
+  const milestoneTitles = await pushMilestones(repo, state, dryRun);
+  const labelNames = await pushLabels(repo, state, dryRun);
+
+  const localIssues = await loadAllLocalIssues();
+  const drafts = await loadDrafts();
 
-  // load project data if --projects flag is set
+  for (const local of localIssues) {
+    if (!state.issues[local.number]) {
+      console.log(`issue #${local.number} has no sync history (skipping)`);
+    }
+  }
+  const modified = await locallyModified(localIssues, state);
+  await pushDeletions(repo, state, dryRun);
+
+  // load project data if --projects flag is set, or a draft needs adding to the project
+  const draftsNeedProject = drafts.some(d => d.project_fields && Object.keys(d.project_fields).length > 0);
   let projectFields = null;
   let projectId = null;
   let projectConfig = null;
 
-  if (syncProjects) {
-    projectConfig = await getOrCreateProjectConfig(owner, repo);
+  // auto-detect or load project config
+  if (syncProjects || draftsNeedProject) {
+    projectConfig = await provider.getProjectConfig(repo);
   }
 
-  if (syncProjects && projectConfig?.enabled && projectConfig.project_number && projectConfig.owner) {
+  if ((syncProjects || draftsNeedProject) && projectConfig?.enabled && projectConfig.project_number && projectConfig.owner) {
     try {
-      projectFields = await getProjectFields(
-        projectConfig.project_number,
-        projectConfig.owner,
-        projectConfig.cached_fields,
-        projectConfig.fields_cached_at
-      );
-      projectId = await getProjectId(projectConfig.project_number, projectConfig.owner);
+      projectFields = await provider.getProjectFields(projectConfig);
+      projectId = await provider.getProjectId(projectConfig);
     } catch (error) {
       console.warn(`warning: failed to load project data: ${error}`);
     }
   }
 
-  const remoteMap = new Map(remoteIssues.map(i => [i.number, i]));
+  const withProject = syncProjects && projectFields && projectId ? projectConfig : null;
+  const { remotes: remoteMap, projectItems } = await fetchRemoteVersions(provider, repo, state, modified, withProject);
+  const failed: number[] = [];
+  const conflicted: number[] = [];
   let updated = 0;
 
-  for (const local of localIssues) {
+  // issues are pushed concurrently, so saves are chained to never overlap
+  let saving = Promise.resolve();
+  const checkpoint = () => (saving = saving.then(() => saveSyncState(state)));
+
+  // pushes one issue; state is checkpointed after each so an aborted run resumes where it left off
+  const pushIssue = async (local: Issue): Promise<void> => {
     const remote = remoteMap.get(local.number);
     const syncInfo = state.issues[local.number];
 
     if (!remote) {
       console.log(`issue #${local.number} not found on github (skipping)`);
-      continue;
+      return;
     }
 
-    if (!syncInfo) {
-      console.log(`issue #${local.number} has no sync history (skipping)`);
-      continue;
-    }
-
-    const fileModTime = await getLocalFileModTime(local.number);
-    const localModified = fileModTime ? fileModTime > syncInfo.last_synced_at : false;
+    const base = await loadBase(local.number);
     const remoteModified = remote.updated_at > syncInfo.github_updated_at;
 
-    if (remoteModified && localModified && !force) {
-      console.log(`⚠ conflict detected for issue #${local.number} (use --force to override)`);
-      continue;
+    // remote project fields were fetched up front so they take part in the merge
+    let remoteProjectItem = null;
+    if (withProject && syncInfo.project_item_id && local.project_fields) {
+      remoteProjectItem = projectItems.get(local.number) ?? null;
+
+      if (remoteProjectItem) {
+        remote.project_fields = extractProjectFieldValues(remoteProjectItem, projectFields!);
+      }
     }
 
-    if (!localModified) {
-      continue;
+    let target = local;
+    if (remoteModified && !force) {
+      if (!base) {
+        console.log(`⚠ conflict detected for issue #${local.number} (use --force to override)`);
+        conflicted.push(local.number);
+        return;
+      }
+
+      const { merged, conflicts } = mergeIssue(base, local, remote);
+      if (conflicts.length > 0) {
+        const fields = conflicts.map(c => c.field).join(', ');
+        console.log(`⚠ conflict detected for issue #${local.number} in ${fields} (use --force to override)`);
+        conflicted.push(local.number);
+        return;
+      }
+
+      target = merged;
+      console.log(`merged remote changes into issue #${local.number}`);
     }
 
     const updates: any = {};
-    if (local.title !== remote.title) updates.title = local.title;
-    if (local.body !== remote.body) updates.body = local.body;
-    if (local.state !== remote.state) updates.state = local.state;
+    if (target.title !== remote.title) updates.title = target.title;
+    if (target.body !== remote.body) updates.body = target.body;
+    if (target.state !== remote.state) updates.state = target.state;
 
-    if (JSON.stringify(local.labels) !== JSON.stringify(remote.labels)) {
-      updates.labels = local.labels;
+    if (!sameSet(target.labels, remote.labels)) {
+      if (!checkLabels(`issue #${local.number}`, target.labels, labelNames, strictLabels)) {
+        return;
+      }
+      updates.labels = target.labels;
+    }
+    if (!sameSet(target.assignees, remote.assignees)) {
+      updates.assignees = target.assignees;
+    }
+    if (!sameValue(target.milestone, remote.milestone)) {
+      if (target.milestone && !milestoneTitles.has(target.milestone)) {
+        console.error(`error: issue #${local.number} uses unknown milestone "${target.milestone}" (skipping)`);
+        return;
+      }
+      updates.milestone = target.milestone;
+      if (target.milestone) {
+        updates.milestone_number = milestoneTitles.get(target.milestone);
+      }
     }
-    if (JSON.stringify(local.assignees) !== JSON.stringify(remote.assignees)) {
-      updates.assignees = local.assignees;
+    if (target.gitlab && !sameValue(target.gitlab, remote.gitlab)) {
+      updates.gitlab = target.gitlab;
     }
 
+    let synced = remote;
+
     if (Object.keys(updates).length > 0) {
       if (dryRun) {
-        console.log(`would update issue #${local.number}: ${local.title}`);
-        const changes = Object.keys(updates).join(', ');
+        console.log(`would update issue #${local.number}: ${target.title}`);
+        const changes = Object.keys(updates).filter(k => k !== 'milestone_number').join(', ');
         console.log(`  changes: ${changes}`);
       } else {
-        console.log(`updating issue #${local.number}: ${local.title}`);
-        await updateIssue(repo, local.number, updates);
-
-        state.issues[local.number] = {
-          github_updated_at: new Date().toISOString(),
-          local_updated_at: local.updated_at,
-          last_synced_at: new Date().toISOString(),
-        };
+        console.log(`updating issue #${local.number}: ${target.title}`);
+        synced = await provider.updateIssue(repo, local.number, updates);
       }
 
       updated++;
     }
 
     // sync project fields if configured
-    if (projectFields && projectId && syncInfo.project_item_id && local.project_fields) {
-      const remoteProjectItem = await getProjectItemForIssue(
-        projectConfig!.project_number!,
-        projectConfig!.owner!,
-        owner,
-        repoName,
-        local.number
-      );
+    if (remoteProjectItem && target.project_fields) {
+      const remoteFields = remote.project_fields || {};
+      const fieldMap = new Map(projectFields!.map(f => [f.name, f]));
 
-      if (remoteProjectItem) {
-        const remoteFields = extractProjectFieldValues(remoteProjectItem, projectFields);
-        const fieldMap = new Map(projectFields.map(f => [f.name, f]));
-
-        for (const [fieldName, localValue] of Object.entries(local.project_fields)) {
-          const remoteValue = remoteFields[fieldName];
-          const field = fieldMap.get(fieldName);
-
-          if (!field) continue;
-
-          if (JSON.stringify(localValue) !== JSON.stringify(remoteValue)) {
-            if (dryRun) {
-              console.log(`would update issue #${local.number} project field "${fieldName}": ${remoteValue} -> ${localValue}`);
-            } else {
-              try {
-                await updateProjectField(projectId, syncInfo.project_item_id, field.id, field, localValue);
-                console.log(`updated issue #${local.number} project field "${fieldName}"`);
-              } catch (error) {
-                console.warn(`warning: failed to update issue #${local.number} project field "${fieldName}": ${error}`);
-              }
+      for (const [fieldName, localValue] of Object.entries(target.project_fields)) {
+        const remoteValue = remoteFields[fieldName];
+        const field = fieldMap.get(fieldName);
+
+        if (!field) {
+          console.warn(`warning: unknown project field "${fieldName}" on issue #${local.number}`);
+          continue;
+        }
+
+        if (JSON.stringify(localValue) !== JSON.stringify(remoteValue)) {
+          if (dryRun) {
+            console.log(`would update issue #${local.number} project field "${fieldName}": ${remoteValue} -> ${localValue}`);
+          } else {
+            try {
+              await provider.updateProjectField(projectId!, syncInfo.project_item_id!, field, localValue);
+              console.log(`updated issue #${local.number} project field "${fieldName}"`);
+            } catch (error) {
+              console.warn(`warning: failed to update issue #${local.number} project field "${fieldName}": ${error}`);
             }
           }
         }
+      }
 
-        if (!dryRun) {
-          state.issues[local.number].project_fields_updated_at = new Date().toISOString();
+      if (!dryRun) {
+        syncInfo.project_fields_updated_at = new Date().toISOString();
+      }
+    }
+
+    if (!dryRun) {
+      // local file and base now match what github has; project fields
+      // only count as synced if they were pushed
+      const syncedBase = {
+        ...synced,
+        project_fields: remoteProjectItem ? target.project_fields : base?.project_fields,
+      };
+      await saveIssue({ ...synced, project_fields: target.project_fields });
+      await saveBase(syncedBase);
+
+      state.issues[local.number] = {
+        ...syncInfo,
+        github_updated_at: synced.updated_at,
+        local_updated_at: synced.updated_at,
+        last_synced_at: new Date().toISOString(),
+        content_hash: contentHash(syncedBase),
+      };
+      await checkpoint();
+    }
+  };
+
+  await mapLimit(modified, await getConcurrency(), async local => {
+    try {
+      await pushIssue(local);
+    } catch (error) {
+      console.error(`error: failed to push issue #${local.number}: ${error}`);
+      failed.push(local.number);
+    }
+  });
+  await saving;
+
+  let created = 0;
+
+  for (const draft of drafts) {
+    if (!draft.title) {
+      console.warn(`warning: draft ${draft.id} has no title (skipping)`);
+      continue;
+    }
+
+    if (!checkLabels(`draft ${draft.id}`, draft.labels, labelNames, strictLabels)) {
+      continue;
+    }
+
+    if (draft.milestone && !milestoneTitles.has(draft.milestone)) {
+      console.error(`error: draft ${draft.id} uses unknown milestone "${draft.milestone}" (skipping)`);
+      continue;
+    }
+
+    if (dryRun) {
+      console.log(`would create issue from draft ${draft.id}: ${draft.title}`);
+      created++;
+      continue;
+    }
+
+    const { issue, nodeId } = await provider.createIssue(repo, {
+      title: draft.title,
+      body: draft.body,
+      state: 'open',
+      labels: draft.labels,
+      assignees: draft.assignees,
+      milestone: draft.milestone,
+      milestone_number: draft.milestone ? milestoneTitles.get(draft.milestone) : undefined,
+    });
+    console.log(`created issue #${issue.number}: ${issue.title}`);
+
+    let projectItemId: string | undefined;
+    if (draft.project_fields && Object.keys(draft.project_fields).length > 0) {
+      if (projectFields && projectId) {
+        try {
+          projectItemId = await provider.addProjectItem(projectId, nodeId);
+          issue.project_fields = await setDraftProjectFields(
+            provider, issue.number, draft, projectId, projectItemId, projectFields
+          );
+        } catch (error) {
+          console.warn(`warning: failed to add issue #${issue.number} to project: ${error}`);
         }
+      } else {
+        console.warn(`warning: no project configured, project fields for issue #${issue.number} not synced`);
       }
     }
+
+    await saveIssue(issue);
+    await saveBase(issue);
+    await removeDraft(draft.id);
+
+    state.issues[issue.number] = {
+      github_updated_at: issue.updated_at,
+      local_updated_at: issue.updated_at,
+      last_synced_at: new Date().toISOString(),
+      content_hash: contentHash(issue),
+      node_id: nodeId,
+    };
+    if (projectItemId) {
+      state.issues[issue.number].project_item_id = projectItemId;
+      state.issues[issue.number].project_fields_updated_at = new Date().toISOString();
+    }
+
+    // save after each creation so a failure later on can't cause duplicates on rerun
+    await saveSyncState(state);
+    created++;
+  }
+
+  let comments = 0;
+  if (syncComments) {
+    comments = await pushComments(repo, state, dryRun);
   }
 
   if (!dryRun) {
@@ -270,37 +694,192 @@ export async function syncUp(force: boolean = false, dryRun: boolean = false, sy
   }
 
   console.log(dryRun
-    ? `found ${updated} issue(s) with local changes`
-    : `sync complete (${updated} issues updated)`);
+    ? `found ${updated} issue(s) with local changes, ${created} draft(s) to create, ${comments} comment(s) to push`
+    : `sync complete (${updated} issues updated, ${created} created, ${comments} comments pushed)`);
+
+  if (failed.length > 0) {
+    throw new Error(`failed to push ${failed.length} issue(s), run \`issync up\` again to retry them`);
+  }
+
+  return { updated, created, comments, conflicted: conflicted.length };
+}
+
+// tracked issues with local changes
+async function locallyModified(issues: Issue[], state: SyncState): Promise<Issue[]> {
+  const modified: Issue[] = [];
+  for (const issue of issues) {
+    const syncInfo = state.issues[issue.number];
+    if (syncInfo && await isLocallyModified(issue, syncInfo)) {
+      modified.push(issue);
+    }
+  }
+  return modified;
+}
+
+// remote versions of the given tracked issues. only issues updated since the oldest
+// of their last syncs are fetched, the rest haven't changed so their base snapshot
+// stands in. project fields change without touching the issue, so items for
+// issues that weren't fetched are looked up separately
+async function fetchRemoteVersions(
+  provider: IssueProvider,
+  repo: string,
+  state: SyncState,
+  issues: Issue[],
+  project: ProjectConfig | null
+): Promise<{ remotes: Map<number, Issue>; projectItems: Map<number, ProjectItem> }> {
+  const remotes = new Map<number, Issue>();
+  const projectItems = new Map<number, ProjectItem>();
+  if (issues.length === 0) {
+    return { remotes, projectItems };
+  }
+
+  const wanted = new Set(issues.map(i => i.number));
+  const since = issues.map(i => state.issues[i.number].github_updated_at).sort()[0];
+  const batch = await fetchIssueBatch(provider, repo, true, since, project);
+
+  for (const issue of batch.issues) {
+    if (!wanted.has(issue.number)) continue;
+    remotes.set(issue.number, issue);
+    if (batch.projectItems.has(issue.number)) {
+      projectItems.set(issue.number, batch.projectItems.get(issue.number)!);
+    }
+  }
+
+  const unchanged: number[] = [];
+  for (const number of wanted) {
+    if (remotes.has(number)) continue;
+
+    // without a base snapshot there's nothing to stand in, so fetch it
+    const remote = await loadBase(number) ?? await provider.fetchIssue(repo, number);
+    if (remote) {
+      remotes.set(number, remote);
+      unchanged.push(number);
+    }
+  }
+
+  if (project && unchanged.length > 0) {
+    for (const [number, item] of await provider.getProjectItems(project, repo, unchanged)) {
+      projectItems.set(number, item);
+    }
+  }
+
+  return { remotes, projectItems };
+}
+
+// warns about labels missing from the catalog, returns false if they should block the push
+function checkLabels(what: string, labels: string[], known: Set<string>, strict: boolean): boolean {
+  const unknown = labels.filter(l => !known.has(l));
+  if (unknown.length === 0) {
+    return true;
+  }
+
+  const list = unknown.map(l => `"${l}"`).join(', ');
+  if (strict) {
+    console.error(`error: ${what} uses label(s) not in the catalog: ${list} (skipping)`);
+    return false;
+  }
+
+  console.warn(`warning: ${what} uses label(s) not in the catalog: ${list} (the push will create them)`);
+  return true;
+}
+
+async function setDraftProjectFields(
+  provider: IssueProvider,
+  number: number,
+  draft: Draft,
+  projectId: string,
+  itemId: string,
+  projectFields: ProjectField[]
+): Promise<Record<string, ProjectFieldValue>> {
+  const fieldMap = new Map(projectFields.map(f => [f.name, f]));
+  const values: Record<string, ProjectFieldValue> = {};
+
+  for (const [fieldName, value] of Object.entries(draft.project_fields || {})) {
+    const field = fieldMap.get(fieldName);
+    if (!field) {
+      console.warn(`warning: unknown project field "${fieldName}" on issue #${number}`);
+      continue;
+    }
+
+    try {
+      await provider.updateProjectField(projectId, itemId, field, value);
+      values[fieldName] = value;
+    } catch (error) {
+      console.warn(`warning: failed to set issue #${number} project field "${fieldName}": ${error}`);
+    }
+  }
+
+  return values;
+}
+
+export async function createDraft(
+  title: string,
+  options: {
+    body?: string;
+    labels?: string[];
+    assignees?: string[];
+    milestone?: string;
+    fields?: string[];
+  } = {}
+): Promise<void> {
+  const projectFields: Record<string, ProjectFieldValue> = {};
+  for (const pair of options.fields || []) {
+    const eq = pair.indexOf('=');
+    if (eq <= 0) {
+      throw new Error(`invalid project field "${pair}" (expected name=value)`);
+    }
+    projectFields[pair.slice(0, eq)] = pair.slice(eq + 1);
+  }
+
+  const filename = await saveDraft({
+    title,
+    body: options.body || '',
+    labels: options.labels || [],
+    assignees: options.assignees || [],
+    milestone: options.milestone || null,
+    project_fields: projectFields,
+  });
+
+  console.log(`created draft ${filename}`);
+  console.log('edit it, then run `issync up` to create the issue');
 }
 
 export async function detectConflicts(): Promise<ConflictInfo[]> {
-  const repo = await getCurrentRepo();
-  const localIssues = await loadAllLocalIssues();
-  const remoteIssues = await fetchIssues(repo, true);
+  const provider = await getProvider();
+  const repo = await provider.getCurrentRepo();
   const state = await loadSyncState();
+  const modified = await locallyModified(await loadAllLocalIssues(), state);
+  const { remotes } = await fetchRemoteVersions(provider, repo, state, modified, null);
 
   const conflicts: ConflictInfo[] = [];
-  const remoteMap = new Map(remoteIssues.map(i => [i.number, i]));
 
-  for (const local of localIssues) {
-    const remote = remoteMap.get(local.number);
+  for (const local of modified) {
+    const remote = remotes.get(local.number);
     const syncInfo = state.issues[local.number];
 
-    if (!remote || !syncInfo) continue;
+    if (!remote) continue;
 
-    const localModified = local.updated_at > syncInfo.last_synced_at;
+    const base = await loadBase(local.number);
     const remoteModified = remote.updated_at > syncInfo.github_updated_at;
 
-    if (localModified && remoteModified) {
-      conflicts.push({
-        number: local.number,
-        title: local.title,
-        github_updated: remote.updated_at,
-        local_updated: local.updated_at,
-        last_synced: syncInfo.last_synced_at,
-      });
+    if (!remoteModified) continue;
+
+    // with a base snapshot only overlapping edits are real conflicts
+    let fields: string[] | undefined;
+    if (base) {
+      const { conflicts: fieldConflicts } = mergeIssue(base, local, remote);
+      if (fieldConflicts.length === 0) continue;
+      fields = fieldConflicts.map(c => c.field);
     }
+
+    conflicts.push({
+      number: local.number,
+      title: local.title,
+      github_updated: remote.updated_at,
+      local_updated: local.updated_at,
+      last_synced: syncInfo.last_synced_at,
+      fields,
+    });
   }
 
   return conflicts;
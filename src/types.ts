@@ -11,6 +11,23 @@ export interface Issue {
   closed_at: string | null;
   url: string;
   project_fields?: Record<string, ProjectFieldValue>;
+  gitlab?: GitLabFields;
+}
+
+// gitlab-only fields, kept in their own frontmatter block
+export interface GitLabFields {
+  weight: number | null;
+  due_date: string | null;
+}
+
+export interface Draft {
+  id: string;
+  title: string;
+  body: string;
+  labels: string[];
+  assignees: string[];
+  milestone: string | null;
+  project_fields?: Record<string, ProjectFieldValue>;
 }
 
 export type ProjectFieldValue = string | number | null;
@@ -44,14 +61,92 @@ export interface ProjectConfig {
   fields_cached_at?: string;
 }
 
+export interface Milestone {
+  number?: number;
+  title: string;
+  state: 'open' | 'closed';
+  description: string | null;
+  due_on: string | null;
+}
+
+export interface Label {
+  id?: number;
+  name: string;
+  color: string;
+  description: string | null;
+}
+
+export interface Comment {
+  id?: number;
+  author: string | null;
+  body: string;
+  created_at: string | null;
+  updated_at: string | null;
+}
+
+export interface Workspace {
+  repos: {
+    repo: string;
+    dir?: string;
+    host?: string;
+  }[];
+}
+
+export interface Config {
+  project?: ProjectConfig;
+  host?: string;
+  api_url?: string;
+  graphql_url?: string;
+  provider?: string;
+  memory_path?: string;
+  concurrency?: number;
+  delete_policy?: DeletePolicy;
+  // where issue files go under issues/, e.g. {state}/{milestone}/{number}-{slug}.md
+  path_template?: string;
+}
+
+// what deleting (or archiving) a tracked issue's local file means
+export type DeletePolicy = 'ignore' | 'close' | 'untrack';
+
 export interface SyncState {
   issues: Record<number, {
     github_updated_at: string;
     local_updated_at: string;
     last_synced_at: string;
+    content_hash?: string;
+    node_id?: string;
     project_item_id?: string;
     project_fields_updated_at?: string;
   }>;
+  milestones?: Milestone[];
+  labels?: Label[];
+  comments_synced_at?: string;
+  // last scan of every remote issue's state, for deleted and transferred issues
+  states_checked_at?: string;
+  // deleted locally and no longer tracked, never fetched again
+  untracked?: number[];
+  // moved to archive/ by `issync archive`, with when; they come back if reopened
+  archived?: Record<number, string>;
+  // login behind @me in queries
+  viewer_login?: string;
+}
+
+export interface DownSummary {
+  fetched: number;
+  added: number;
+  // issues with local changes that were kept, and ones that conflict
+  pending: number;
+  conflicted: number;
+  // closed, reopened, transferred and deleted issues
+  changes: string[];
+}
+
+export interface UpSummary {
+  updated: number;
+  created: number;
+  comments: number;
+  // issues left unpushed because they conflict with remote changes
+  conflicted: number;
 }
 
 export interface ConflictInfo {
@@ -60,4 +155,24 @@ export interface ConflictInfo {
   github_updated: string;
   local_updated: string;
   last_synced: string;
+  fields?: string[];
+}
+
+export interface StatusEntry {
+  number: number;
+  title: string;
+  fields?: string[];
+}
+
+export interface StatusReport {
+  modified: StatusEntry[];
+  untracked: StatusEntry[];
+  deleted: number[];
+  drafts: { id: string; title: string }[];
+  remote?: {
+    since?: string;
+    updated: StatusEntry[];
+    added: StatusEntry[];
+    conflicts: StatusEntry[];
+  };
 }
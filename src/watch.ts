@@ -0,0 +1,216 @@
+import { watch as watchFiles, type FSWatcher } from 'fs';
+import { mkdir } from 'fs/promises';
+import { join, sep } from 'path';
+import { getStorageRoot, loadSyncState } from './storage.js';
+import { getStatus } from './status.js';
+import { hasMilestoneChanges } from './milestones.js';
+import { hasLabelChanges } from './labels.js';
+import { hasCommentChanges } from './comments.js';
+import { syncDown, syncUp } from './sync.js';
+import type { DownSummary, UpSummary } from './types.js';
+
+export interface WatchOptions {
+  // seconds between polls
+  interval: number;
+  // milliseconds to wait after the last file save before pushing
+  debounce: number;
+  projects: boolean;
+  comments: boolean;
+}
+
+// failures back off up to this, starting from the poll interval
+const MAX_BACKOFF_MS = 30 * 60 * 1000;
+// files whose edits `up` pushes, relative to the storage root
+const WATCHED = [`issues${sep}`, `drafts${sep}`, `comments${sep}`, 'milestones.yml', 'labels.yml'];
+
+function timestamp(): string {
+  return new Date().toTimeString().slice(0, 8);
+}
+
+// written straight to stdout, so events still show while a sync is silenced
+export function event(kind: string, message: string): void {
+  process.stdout.write(`${timestamp()} ${kind.padEnd(5)} ${message}\n`);
+}
+
+function plural(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`;
+}
+
+// sync progress is noise in the event log, warnings and errors still come through
+async function quietly<T>(fn: () => Promise<T>): Promise<T> {
+  const log = console.log;
+  console.log = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+  }
+}
+
+function describeDown(summary: DownSummary): string | null {
+  const parts: string[] = [];
+  if (summary.fetched > 0) {
+    parts.push(`${summary.fetched} updated${summary.added > 0 ? ` (${summary.added} new)` : ''}`);
+  }
+  if (summary.pending > 0) {
+    parts.push(`${summary.pending} with local changes kept`);
+  }
+  if (summary.conflicted > 0) {
+    parts.push(plural(summary.conflicted, 'conflict'));
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+function describeUp(summary: UpSummary): string | null {
+  const parts: string[] = [];
+  if (summary.updated > 0) {
+    parts.push(`${summary.updated} updated`);
+  }
+  if (summary.created > 0) {
+    parts.push(`${summary.created} created`);
+  }
+  if (summary.comments > 0) {
+    parts.push(plural(summary.comments, 'comment'));
+  }
+  if (summary.conflicted > 0) {
+    parts.push(`${plural(summary.conflicted, 'conflict')} (run \`issync conflicts\`)`);
+  }
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+// checked offline, so polls without local edits don't touch the api
+async function hasLocalChanges(comments: boolean): Promise<boolean> {
+  const status = await getStatus();
+  if (status.modified.length > 0 || status.drafts.length > 0 || status.deleted.length > 0) {
+    return true;
+  }
+
+  const state = await loadSyncState();
+  return await hasMilestoneChanges(state)
+    || await hasLabelChanges(state)
+    || (comments && await hasCommentChanges(state));
+}
+
+// polls for remote changes and pushes local edits shortly after they're saved,
+// until interrupted. down and up never run at the same time
+export async function watch(options: WatchOptions): Promise<void> {
+  const root = getStorageRoot();
+  const intervalMs = options.interval * 1000;
+
+  let stopping = false;
+  let failures = 0;
+  // conflicts stay unpushed until resolved, so they're reported when the count changes
+  let reportedConflicts = 0;
+  let pollTimer: NodeJS.Timeout | null = null;
+  let pushTimer: NodeJS.Timeout | null = null;
+  let watcher: FSWatcher | null = null;
+  // every sync runs after the previous one
+  let queue = Promise.resolve();
+
+  const run = (task: () => Promise<void>) => {
+    queue = queue.then(async () => {
+      if (stopping) {
+        return;
+      }
+
+      try {
+        await task();
+        failures = 0;
+      } catch (error: any) {
+        failures++;
+        const delay = Math.min(MAX_BACKOFF_MS, intervalMs * 2 ** failures);
+        event('error', `${error.message ?? error}, next try in ${Math.round(delay / 1000)}s`);
+        schedulePoll(delay);
+      }
+    });
+    return queue;
+  };
+
+  const push = async () => {
+    if (!await hasLocalChanges(options.comments)) {
+      return;
+    }
+    const summary = await quietly(() => syncUp(false, false, options.projects, false, options.comments));
+    const message = describeUp({ ...summary, conflicted: summary.conflicted === reportedConflicts ? 0 : summary.conflicted });
+    reportedConflicts = summary.conflicted;
+    if (message) {
+      event('up', message);
+    }
+  };
+
+  const poll = async () => {
+    const summary = await quietly(() => syncDown(false, false, options.projects, options.comments));
+    const message = describeDown(summary);
+    if (message) {
+      event('down', message);
+    }
+    for (const change of summary.changes) {
+      event('down', change);
+    }
+
+    // edits made while offline or while a sync was running
+    await push();
+    schedulePoll(intervalMs);
+  };
+
+  function schedulePoll(delay: number): void {
+    if (stopping) {
+      return;
+    }
+    if (pollTimer) {
+      clearTimeout(pollTimer);
+    }
+    pollTimer = setTimeout(() => run(poll), delay);
+  }
+
+  const onFileChange = (filename: string | null) => {
+    if (stopping || !filename || !WATCHED.some(w => filename === w || filename.startsWith(w))) {
+      return;
+    }
+    if (pushTimer) {
+      clearTimeout(pushTimer);
+    }
+    pushTimer = setTimeout(() => run(push), options.debounce);
+  };
+
+  let stopped: () => void = () => {};
+  const done = new Promise<void>(resolve => {
+    stopped = resolve;
+  });
+
+  const stop = async () => {
+    if (stopping) {
+      // a second ctrl-c doesn't wait for the running sync
+      process.exit(130);
+    }
+
+    stopping = true;
+    event('watch', 'stopping...');
+    if (pollTimer) {
+      clearTimeout(pollTimer);
+    }
+    if (pushTimer) {
+      clearTimeout(pushTimer);
+    }
+    watcher?.close();
+
+    await queue;
+    process.off('SIGINT', stop);
+    process.off('SIGTERM', stop);
+    stopped();
+  };
+
+  process.on('SIGINT', stop);
+  process.on('SIGTERM', stop);
+
+  await mkdir(join(root, 'issues'), { recursive: true });
+  // recursive watching on linux needs node 19.1+, hence engines >=20
+  watcher = watchFiles(root, { recursive: true }, (_, filename) => onFileChange(filename));
+  watcher.on('error', error => event('error', `file watcher: ${error.message}`));
+
+  event('watch', `polling every ${options.interval}s, pushing saves after ${options.debounce}ms (ctrl-c to stop)`);
+  run(poll);
+
+  await done;
+  event('watch', 'stopped');
+}
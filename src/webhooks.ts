@@ -0,0 +1,429 @@
+import { createServer, type IncomingMessage } from 'http';
+import { createHmac, timingSafeEqual } from 'crypto';
+import { readFile, readdir, stat } from 'fs/promises';
+import { join } from 'path';
+import { getProvider } from './provider.js';
+import { loadIssue, loadBase, loadConfig, loadSyncState, saveSyncState, restoreArchived } from './storage.js';
+import { storeRemoteIssue, archiveRemoved } from './sync.js';
+import { storeRemoteComments } from './comments.js';
+import { pullLabels } from './labels.js';
+import { pullMilestones } from './milestones.js';
+import { getDeletePolicy } from './archive.js';
+import { extractProjectFieldValues } from './project.js';
+import { updateSearchIndex } from './search.js';
+import { toIssue, toComment, toLabel, toMilestone } from './gh.js';
+import { event } from './watch.js';
+import type { Label, Milestone, ProjectFieldValue, SyncState } from './types.js';
+
+// one webhook delivery: the X-GitHub-Event header and the json body
+export interface WebhookDelivery {
+  event: string;
+  payload: any;
+}
+
+export interface ServeOptions {
+  port: number;
+  host: string;
+  secret: string;
+}
+
+// github never sends more than this
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+
+// checks the X-Hub-Signature-256 header against the raw body
+export function verifySignature(secret: string, body: Buffer | string, header: string | undefined): boolean {
+  if (!header?.startsWith('sha256=')) {
+    return false;
+  }
+
+  const expected = Buffer.from(`sha256=${createHmac('sha256', secret).update(body).digest('hex')}`);
+  const actual = Buffer.from(header);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function handleIssues(repo: string, state: SyncState, payload: any): Promise<string[]> {
+  const issue = toIssue(payload.issue);
+  const number = issue.number;
+  const tracked = !!state.issues[number];
+
+  if (payload.action === 'deleted') {
+    return tracked ? [await archiveRemoved(number, state)] : [];
+  }
+
+  if (payload.action === 'transferred') {
+    const target = payload.changes?.new_issue;
+    const targetRepo = payload.changes?.new_repository?.full_name;
+    if (!tracked) {
+      return [];
+    }
+    return [await archiveRemoved(number, state, target && targetRepo ? { repo: targetRepo, number: target.number } : undefined)];
+  }
+
+  // same rules as `down`: closed issues only if they're tracked, untracked and
+  // archived ones stay out unless reopened
+  if (state.untracked?.includes(number) || (!tracked && issue.state !== 'open')) {
+    return [];
+  }
+  if (state.archived?.[number] && issue.state !== 'open') {
+    return [];
+  }
+
+  // deliveries can arrive out of order
+  if (tracked && state.issues[number].github_updated_at > issue.updated_at) {
+    return [`stale: #${number} ${payload.action} event is older than the local copy (skipping)`];
+  }
+
+  if (tracked && await getDeletePolicy() !== 'ignore' && !await loadIssue(number)) {
+    return [`deleted locally: #${number}, run \`issync up\` to apply the delete policy`];
+  }
+
+  const report: string[] = [];
+  if (state.archived?.[number]) {
+    await restoreArchived(number);
+    delete state.archived[number];
+    report.push(`reopened: #${number} ${issue.title}, restored from archive`);
+  }
+
+  const result = await storeRemoteIssue(issue, state, true, report);
+  if (result === 'conflict') {
+    report.push(`conflict: #${number}, run \`issync conflicts\` to review`);
+    return report;
+  }
+
+  if (payload.issue.node_id) {
+    state.issues[number].node_id = payload.issue.node_id;
+  }
+
+  // state changes are already in the report
+  if (!report.some(line => line.includes(`#${number} `))) {
+    report.push(`${tracked ? 'updated' : 'added'}: #${number} ${issue.title} (${payload.action})`);
+  }
+  if (result === 'pending') {
+    report.push(`#${number} has local changes, run \`issync up\` to push them`);
+  }
+  return report;
+}
+
+async function handleComment(state: SyncState, payload: any): Promise<string[]> {
+  const number = payload.issue.number;
+
+  // pull request comments come through here too. comments are only kept for
+  // repos that sync them
+  if (payload.issue.pull_request || !state.issues[number] || !state.comments_synced_at) {
+    return [];
+  }
+
+  const comment = toComment(payload.comment);
+  if (payload.action === 'deleted') {
+    await storeRemoteComments(number, [], [comment.id!]);
+    return [`comment deleted: ${comment.id} on #${number}`];
+  }
+
+  const updated = await storeRemoteComments(number, [comment]);
+  return updated > 0
+    ? [`comment ${payload.action}: ${comment.id} on #${number} by ${comment.author}`]
+    : [`comment ${comment.id} on #${number} has local edits, kept`];
+}
+
+// the last synced list with one entry replaced, added or removed
+function applyChange<T>(list: T[], item: T, same: (a: T) => boolean, removed: boolean): T[] {
+  if (removed) {
+    return list.filter(i => !same(i));
+  }
+  return list.some(same) ? list.map(i => (same(i) ? item : i)) : [...list, item];
+}
+
+async function handleLabel(repo: string, state: SyncState, payload: any): Promise<string[]> {
+  // labels.yml is only written once `down` has synced labels
+  if (!state.labels) {
+    return [];
+  }
+
+  const label = toLabel(payload.label);
+  const remote = applyChange<Label>(state.labels, label, l => l.id === label.id, payload.action === 'deleted');
+  await pullLabels(repo, state, remote);
+  return [`label ${payload.action}: "${label.name}"`];
+}
+
+async function handleMilestone(repo: string, state: SyncState, payload: any): Promise<string[]> {
+  if (!state.milestones) {
+    return [];
+  }
+
+  const milestone = toMilestone(payload.milestone);
+  const remote = applyChange<Milestone>(state.milestones, milestone, m => m.number === milestone.number, payload.action === 'deleted');
+  await pullMilestones(repo, state, remote);
+  return [`milestone ${payload.action}: "${milestone.title}"`];
+}
+
+// the new value from `changes.field_value.to`, in the shape project items use
+function fieldValue(to: any): ProjectFieldValue {
+  if (to === null || to === undefined) {
+    return null;
+  }
+  if (typeof to === 'object') {
+    // single select options have a name, iterations a title
+    return to.name ?? to.title ?? null;
+  }
+  // dates come as timestamps
+  return typeof to === 'string' && /^\d{4}-\d{2}-\d{2}T/.test(to) ? to.slice(0, 10) : to;
+}
+
+async function handleProjectItem(repo: string, state: SyncState, payload: any): Promise<string[]> {
+  const item = payload.projects_v2_item;
+  if (item?.content_type !== 'Issue') {
+    return [];
+  }
+
+  // project events aren't tied to a repo, the issue's node id is the link
+  const entry = Object.entries(state.issues).find(([, info]) => info.node_id === item.content_node_id);
+  if (!entry) {
+    return [];
+  }
+  const number = Number(entry[0]);
+  const syncInfo = entry[1];
+
+  // items in other projects have their own ids
+  if (syncInfo.project_item_id && syncInfo.project_item_id !== item.node_id) {
+    return [];
+  }
+
+  if (payload.action === 'deleted') {
+    if (!syncInfo.project_item_id) {
+      return [];
+    }
+    delete syncInfo.project_item_id;
+    return [`removed from project: #${number}`];
+  }
+
+  if (payload.action !== 'edited') {
+    return [];
+  }
+
+  const { project } = await loadConfig();
+  const change = payload.changes?.field_value;
+  const field = project?.cached_fields?.find(f => f.id === change?.field_node_id);
+  if (!project?.cached_fields || !field) {
+    return [];
+  }
+
+  const base = await loadBase(number);
+  if (!base) {
+    return [`project fields: #${number} has no base snapshot, run \`issync down --projects\``];
+  }
+
+  // older payloads only say which field changed, not what to
+  let values: Record<string, ProjectFieldValue>;
+  if (change.to !== undefined) {
+    values = { [field.name]: fieldValue(change.to) };
+  } else {
+    const fetched = (await (await getProvider()).getProjectItems(project, repo, [number])).get(number);
+    if (!fetched) {
+      return [];
+    }
+    values = extractProjectFieldValues(fetched, project.cached_fields);
+  }
+
+  const report: string[] = [];
+  const result = await storeRemoteIssue({ ...base, project_fields: { ...base.project_fields, ...values } }, state, false, report);
+  if (result === 'conflict') {
+    return [`conflict: #${number} project field "${field.name}", run \`issync conflicts\` to review`];
+  }
+
+  state.issues[number].project_item_id = item.node_id;
+  state.issues[number].project_fields_updated_at = new Date().toISOString();
+  return [`project field "${field.name}" updated: #${number}`];
+}
+
+// applies one event to the local files and state.json, returning what changed.
+// events for other repos and ones issync doesn't track are ignored
+export async function handleEvent(delivery: WebhookDelivery): Promise<string[]> {
+  const { event: name, payload } = delivery;
+  const repo = await (await getProvider()).getCurrentRepo();
+
+  // project events are org or user level and have no repository
+  const from = payload?.repository?.full_name;
+  if (from && from.toLowerCase() !== repo.toLowerCase()) {
+    return [];
+  }
+
+  const state = await loadSyncState();
+  let report: string[];
+
+  switch (name) {
+    case 'ping':
+      return [`ping: ${payload?.zen ?? 'ok'}`];
+    case 'issues':
+      report = await handleIssues(repo, state, payload);
+      break;
+    case 'issue_comment':
+      report = await handleComment(state, payload);
+      break;
+    case 'label':
+      report = await handleLabel(repo, state, payload);
+      break;
+    case 'milestone':
+      report = await handleMilestone(repo, state, payload);
+      break;
+    case 'projects_v2_item':
+      report = await handleProjectItem(repo, state, payload);
+      break;
+    default:
+      return [];
+  }
+
+  await saveSyncState(state);
+
+  if (name === 'issues' && report.length > 0) {
+    try {
+      await updateSearchIndex();
+    } catch (error) {
+      console.warn(`warning: failed to update the search index: ${error}`);
+    }
+  }
+
+  return report;
+}
+
+async function logDelivery(delivery: WebhookDelivery): Promise<void> {
+  const name = delivery.payload?.action ? `${delivery.event}.${delivery.payload.action}` : delivery.event;
+  try {
+    const report = await handleEvent(delivery);
+    if (report.length === 0) {
+      event('skip', name);
+    }
+    for (const line of report) {
+      event('hook', line);
+    }
+  } catch (error: any) {
+    event('error', `${name}: ${error.message ?? error}`);
+  }
+}
+
+function readBody(req: IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('payload too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+}
+
+// listens for github webhook deliveries until interrupted. deliveries are
+// acknowledged straight away and applied one at a time
+export async function serveWebhooks(options: ServeOptions): Promise<void> {
+  if ((await getProvider()).name === 'gitlab') {
+    throw new Error('webhooks are only supported for github repos');
+  }
+
+  let queue = Promise.resolve();
+
+  const server = createServer(async (req, res) => {
+    const reply = (status: number, message: string) => {
+      res.writeHead(status, { 'content-type': 'text/plain' });
+      res.end(`${message}\n`);
+    };
+
+    if (req.method !== 'POST') {
+      reply(405, 'method not allowed');
+      return;
+    }
+
+    let body: Buffer;
+    try {
+      body = await readBody(req);
+    } catch (error: any) {
+      reply(413, error.message);
+      return;
+    }
+
+    if (!verifySignature(options.secret, body, req.headers['x-hub-signature-256'] as string | undefined)) {
+      event('error', `rejected delivery from ${req.socket.remoteAddress}: bad signature`);
+      reply(401, 'bad signature');
+      return;
+    }
+
+    const name = req.headers['x-github-event'];
+    let payload: any;
+    try {
+      payload = JSON.parse(body.toString('utf-8'));
+    } catch {
+      reply(400, 'invalid json');
+      return;
+    }
+    if (typeof name !== 'string') {
+      reply(400, 'missing X-GitHub-Event header');
+      return;
+    }
+
+    reply(202, 'accepted');
+    queue = queue.then(() => logDelivery({ event: name, payload }));
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', (error: any) => reject(new Error(`failed to listen on ${options.host}:${options.port}: ${error.message}`)));
+    server.listen(options.port, options.host, resolve);
+  });
+
+  event('hook', `listening on http://${options.host}:${options.port} (ctrl-c to stop)`);
+
+  await new Promise<void>(resolve => {
+    const stop = async () => {
+      process.off('SIGINT', stop);
+      process.off('SIGTERM', stop);
+      event('hook', 'stopping...');
+      server.close();
+      server.closeAllConnections();
+      await queue;
+      resolve();
+    };
+    process.on('SIGINT', stop);
+    process.on('SIGTERM', stop);
+  });
+
+  event('hook', 'stopped');
+}
+
+// stored deliveries from a json file ({event, payload} or an array of them) or a
+// directory of such files, in name order
+async function loadDeliveries(path: string): Promise<WebhookDelivery[]> {
+  const files = (await stat(path)).isDirectory()
+    ? (await readdir(path)).filter(f => f.endsWith('.json')).sort().map(f => join(path, f))
+    : [path];
+
+  const deliveries: WebhookDelivery[] = [];
+  for (const file of files) {
+    let data: any;
+    try {
+      data = JSON.parse(await readFile(file, 'utf-8'));
+    } catch (error: any) {
+      throw new Error(`failed to read ${file}: ${error.message}`);
+    }
+
+    for (const delivery of Array.isArray(data) ? data : [data]) {
+      if (typeof delivery?.event !== 'string' || typeof delivery.payload !== 'object') {
+        throw new Error(`${file}: expected {"event": ..., "payload": ...}`);
+      }
+      deliveries.push(delivery);
+    }
+  }
+  return deliveries;
+}
+
+// applies stored deliveries in order, without a server or signatures
+export async function replayWebhooks(path: string): Promise<void> {
+  const deliveries = await loadDeliveries(path);
+  for (const delivery of deliveries) {
+    await logDelivery(delivery);
+  }
+  console.log(`replayed ${deliveries.length} event(s)`);
+}
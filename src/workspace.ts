@@ -0,0 +1,184 @@
+import { readFile, writeFile, mkdir } from 'fs/promises';
+import { join } from 'path';
+import { getCurrentRepo, setCurrentRepo, setCurrentHost } from './client.js';
+import { setStorageRoot } from './storage.js';
+import type { Workspace } from './types.js';
+
+const WORKSPACE_FILE = '.issync/workspace.json';
+const DEFAULT_ROOT = '.issync';
+
+interface SelectedRepo {
+  repo: string | null;
+  dir: string;
+  host?: string;
+}
+
+export async function loadWorkspace(): Promise<Workspace | null> {
+  try {
+    const content = await readFile(WORKSPACE_FILE, 'utf-8');
+    return JSON.parse(content);
+  } catch {
+    return null;
+  }
+}
+
+export async function saveWorkspace(workspace: Workspace): Promise<void> {
+  await mkdir(DEFAULT_ROOT, { recursive: true });
+  await writeFile(WORKSPACE_FILE, JSON.stringify(workspace, null, 2), 'utf-8');
+}
+
+function repoDir(entry: Workspace['repos'][number]): string {
+  return entry.dir || join(DEFAULT_ROOT, 'repos', ...entry.repo.split('/'));
+}
+
+// a filter matches either the full owner/name or just the repo name
+function matches(repo: string, filter: string): boolean {
+  return repo === filter || repo.split('/').pop() === filter;
+}
+
+async function selectRepos(filter?: string[]): Promise<SelectedRepo[]> {
+  const workspace = await loadWorkspace();
+
+  if (!workspace) {
+    if (filter && filter.length > 0) {
+      const current = await getCurrentRepo();
+      const unknown = filter.filter(f => !matches(current, f));
+      if (unknown.length > 0) {
+        throw new Error(
+          `${unknown.join(', ')} is not the current repo (${current}), ` +
+          'add repos to a workspace with: issync workspace add <owner/repo>'
+        );
+      }
+    }
+    return [{ repo: null, dir: DEFAULT_ROOT }];
+  }
+
+  let repos = workspace.repos;
+  if (filter && filter.length > 0) {
+    const unknown = filter.filter(f => !repos.some(r => matches(r.repo, f)));
+    if (unknown.length > 0) {
+      throw new Error(`not in the workspace: ${unknown.join(', ')}`);
+    }
+    repos = repos.filter(r => filter.some(f => matches(r.repo, f)));
+  }
+
+  if (repos.length === 0) {
+    throw new Error('workspace has no repos, add one with: issync workspace add <owner/repo>');
+  }
+
+  return repos.map(r => ({ repo: r.repo, dir: repoDir(r), host: r.host }));
+}
+
+async function runInRepo(selected: SelectedRepo, fn: () => Promise<void>): Promise<void> {
+  setCurrentRepo(selected.repo);
+  setCurrentHost(selected.host ?? null);
+  setStorageRoot(selected.dir);
+  try {
+    await fn();
+  } finally {
+    setCurrentRepo(null);
+    setCurrentHost(null);
+    setStorageRoot(DEFAULT_ROOT);
+  }
+}
+
+// runs fn once per selected repo, with storage and the current repo switched over
+export async function forEachRepo(filter: string[] | undefined, fn: () => Promise<void>): Promise<void> {
+  const repos = await selectRepos(filter);
+
+  if (repos.length === 1) {
+    await runInRepo(repos[0], fn);
+    return;
+  }
+
+  // keep going when one repo fails, but still report it
+  const failed: string[] = [];
+  for (const [idx, selected] of repos.entries()) {
+    console.log(`${idx > 0 ? '\n' : ''}==> ${selected.repo}`);
+    try {
+      await runInRepo(selected, fn);
+    } catch (error) {
+      console.error(`error: ${error}`);
+      failed.push(selected.repo!);
+    }
+  }
+
+  if (failed.length > 0) {
+    throw new Error(`failed for ${failed.join(', ')}`);
+  }
+}
+
+// for commands that only make sense against one repo
+export async function withSingleRepo(filter: string[] | undefined, fn: () => Promise<void>): Promise<void> {
+  const repos = await selectRepos(filter);
+
+  if (repos.length > 1) {
+    throw new Error(`pick a repo with --repo (one of ${repos.map(r => r.repo).join(', ')})`);
+  }
+
+  await runInRepo(repos[0], fn);
+}
+
+export interface IssueRef {
+  repo?: string;
+  number: number;
+}
+
+// accepts 12, #12, owner/repo#12 and issue urls
+export function parseIssueRef(ref: string): IssueRef {
+  const plain = ref.match(/^#?(\d+)$/);
+  if (plain) {
+    return { number: parseInt(plain[1], 10) };
+  }
+
+  const qualified = ref.match(/^([\w.-]+(?:\/[\w.-]+)+)#(\d+)$/);
+  if (qualified) {
+    return { repo: qualified[1], number: parseInt(qualified[2], 10) };
+  }
+
+  const url = ref.match(/^https?:\/\/[^/]+\/([\w.-]+(?:\/[\w.-]+)+?)(?:\/-)?\/issues\/(\d+)/);
+  if (url) {
+    return { repo: url[1], number: parseInt(url[2], 10) };
+  }
+
+  throw new Error(`invalid issue reference "${ref}" (expected 12, #12, owner/repo#12 or an issue url)`);
+}
+
+export async function addWorkspaceRepo(repo: string, dir?: string, host?: string): Promise<void> {
+  if (!/^[\w.-]+(?:\/[\w.-]+)+$/.test(repo)) {
+    throw new Error(`invalid repo "${repo}" (expected owner/name)`);
+  }
+
+  const workspace = await loadWorkspace() || { repos: [] };
+  if (workspace.repos.some(r => r.repo === repo)) {
+    throw new Error(`${repo} is already in the workspace`);
+  }
+
+  workspace.repos.push({ repo, ...(dir ? { dir } : {}), ...(host ? { host } : {}) });
+  await saveWorkspace(workspace);
+  console.log(`added ${repo} (stored in ${repoDir(workspace.repos[workspace.repos.length - 1])})`);
+}
+
+export async function removeWorkspaceRepo(repo: string): Promise<void> {
+  const workspace = await loadWorkspace();
+  const entry = workspace?.repos.find(r => matches(r.repo, repo));
+  if (!workspace || !entry) {
+    throw new Error(`${repo} is not in the workspace`);
+  }
+
+  workspace.repos = workspace.repos.filter(r => r !== entry);
+  await saveWorkspace(workspace);
+  console.log(`removed ${entry.repo} (local files in ${repoDir(entry)} were kept)`);
+}
+
+export async function listWorkspaceRepos(): Promise<void> {
+  const workspace = await loadWorkspace();
+  if (!workspace || workspace.repos.length === 0) {
+    console.log('no workspace configured');
+    return;
+  }
+
+  for (const entry of workspace.repos) {
+    console.log(`${entry.host ? `${entry.host}/` : ''}${entry.repo}  ${repoDir(entry)}`);
+  }
+}
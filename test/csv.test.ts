@@ -0,0 +1,57 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseCsv, formatRows } from '../src/export.js';
+
+test('parseCsv splits plain rows', () => {
+  assert.deepEqual(parseCsv('number,title\n1,crash\n2,docs\n'), [
+    ['number', 'title'],
+    ['1', 'crash'],
+    ['2', 'docs'],
+  ]);
+});
+
+test('parseCsv reads quoted cells with commas, quotes and newlines', () => {
+  const csv = 'number,title,body\n1,"crash, again","says ""null""\nthen exits"\n';
+
+  assert.deepEqual(parseCsv(csv), [
+    ['number', 'title', 'body'],
+    ['1', 'crash, again', 'says "null"\nthen exits'],
+  ]);
+});
+
+test('parseCsv handles crlf line endings and a byte order mark', () => {
+  assert.deepEqual(parseCsv('\uFEFFnumber,title\r\n1,crash\r\n'), [
+    ['number', 'title'],
+    ['1', 'crash'],
+  ]);
+});
+
+test('parseCsv keeps empty cells and a last row without a newline', () => {
+  assert.deepEqual(parseCsv('a,b,c\n1,,3\n,5,'), [
+    ['a', 'b', 'c'],
+    ['1', '', '3'],
+    ['', '5', ''],
+  ]);
+});
+
+test('parseCsv drops blank trailing lines', () => {
+  assert.deepEqual(parseCsv('a\n1\n\n,\n\n'), [['a'], ['1']]);
+});
+
+test('parseCsv rejects an unterminated quoted cell', () => {
+  assert.throws(() => parseCsv('a,b\n1,"oops\n'), /unterminated quoted cell on row 2/);
+});
+
+test('csv written by formatRows parses back to the same cells', () => {
+  const columns = ['number', 'title', 'labels', 'milestone'];
+  const rows = [
+    { number: 1, title: 'crash, "again"', labels: ['bug', 'p1'], milestone: null },
+    { number: 2, title: 'multi\nline', labels: [], milestone: 'v1.0' },
+  ];
+
+  assert.deepEqual(parseCsv(formatRows(rows, columns, 'csv')), [
+    columns,
+    ['1', 'crash, "again"', 'bug, p1', ''],
+    ['2', 'multi\nline', '', 'v1.0'],
+  ]);
+});
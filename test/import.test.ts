@@ -0,0 +1,145 @@
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setStorageRoot, saveIssue, loadIssue, findIssueFile, saveConfig, saveMilestones } from '../src/storage.js';
+import { exportIssues, importIssues, parseCsv } from '../src/export.js';
+import type { Issue } from '../src/types.js';
+
+const roots: string[] = [];
+let root: string;
+
+function issue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    number: 1,
+    title: 'crash on login',
+    body: 'steps to reproduce',
+    state: 'open',
+    labels: ['bug', 'p1'],
+    assignees: [],
+    milestone: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    closed_at: null,
+    url: 'https://github.com/o/r/issues/1',
+    project_fields: { Status: 'Todo', Estimate: 3 },
+    ...overrides,
+  };
+}
+
+// exports the local issues as csv and returns its rows, header first
+async function exported(): Promise<string[][]> {
+  const file = join(root, 'issues.csv');
+  await exportIssues('csv', file);
+  return parseCsv(await readFile(file, 'utf-8'));
+}
+
+async function importCsv(rows: string[][]): Promise<void> {
+  const file = join(root, 'edited.csv');
+  await writeFile(file, rows.map(r => r.map(c => `"${c.replace(/"/g, '""')}"`).join(',')).join('\n'), 'utf-8');
+  await importIssues(file);
+}
+
+function cell(rows: string[][], row: number, column: string): string {
+  return rows[row][rows[0].indexOf(column)];
+}
+
+function setCell(rows: string[][], row: number, column: string, value: string): string[][] {
+  const copy = rows.map(r => [...r]);
+  copy[row][rows[0].indexOf(column)] = value;
+  return copy;
+}
+
+beforeEach(async () => {
+  root = await mkdtemp(join(tmpdir(), 'issync-import-'));
+  roots.push(root);
+  setStorageRoot(root);
+
+  await saveConfig({
+    project: {
+      enabled: true,
+      cached_fields: [
+        { id: 'status', name: 'Status', dataType: 'SINGLE_SELECT', options: [{ id: 'todo', name: 'Todo' }, { id: 'done', name: 'Done' }] },
+        { id: 'estimate', name: 'Estimate', dataType: 'NUMBER' },
+      ],
+    },
+  });
+  await saveMilestones([{ number: 1, title: 'v1.0', state: 'open', description: null, due_on: null }]);
+  await saveIssue(issue());
+  await saveIssue(issue({ number: 2, title: 'update the docs', labels: [], url: 'https://github.com/o/r/issues/2' }));
+});
+
+after(async () => {
+  for (const dir of roots) {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('importing an unchanged export changes nothing', async () => {
+  const file = (await findIssueFile(1))!;
+  const before = await readFile(file, 'utf-8');
+
+  await importCsv(await exported());
+
+  assert.equal(await readFile(file, 'utf-8'), before);
+});
+
+test('import writes only the changed cells', async () => {
+  let rows = await exported();
+  rows = setCell(rows, 1, 'milestone', 'v1.0');
+  rows = setCell(rows, 1, 'project_fields.Estimate', '5');
+  // reordering a list isn't a change
+  rows = setCell(rows, 1, 'labels', 'p1, bug');
+  // read-only columns are ignored
+  rows = setCell(rows, 2, 'updated_at', '2030-01-01T00:00:00Z');
+
+  await importCsv(rows);
+
+  const first = await loadIssue(1);
+  assert.equal(first?.milestone, 'v1.0');
+  assert.deepEqual(first?.labels, ['bug', 'p1']);
+  // typed like the remote value, so `up` sees one change and not a string
+  assert.deepEqual(first?.project_fields, { Status: 'Todo', Estimate: 5 });
+  assert.equal((await loadIssue(2))?.updated_at, '2026-01-01T00:00:00Z');
+});
+
+test('one bad row rejects the whole import', async () => {
+  let rows = await exported();
+  rows = setCell(rows, 1, 'title', 'crash when logging in');
+  rows = setCell(rows, 2, 'state', 'resolved');
+
+  await assert.rejects(importCsv(rows), /1 row\(s\) rejected, nothing imported/);
+  assert.equal((await loadIssue(1))?.title, 'crash on login');
+});
+
+test('import checks project fields against the cached ones', async () => {
+  const rows = await exported();
+
+  await assert.rejects(importCsv(setCell(rows, 1, 'project_fields.Status', 'Blocked')), /rejected/);
+  await assert.rejects(importCsv(setCell(rows, 1, 'project_fields.Estimate', 'lots')), /rejected/);
+  await assert.rejects(importCsv(setCell(rows, 1, 'milestone', 'v9')), /rejected/);
+
+  const unknown = rows.map((r, i) => [...r, i === 0 ? 'project_fields.Owner' : 'alice']);
+  await assert.rejects(importCsv(unknown), /rejected/);
+
+  assert.deepEqual((await loadIssue(1))?.project_fields, { Status: 'Todo', Estimate: 3 });
+});
+
+test('export neutralises formulas and import restores them', async () => {
+  await saveIssue(issue({ title: '=HYPERLINK("https://example.com","click")', labels: ['-wip'] }));
+  await saveIssue(issue({ number: 2, title: "'@already quoted", labels: [], url: 'https://github.com/o/r/issues/2' }));
+
+  const rows = await exported();
+  assert.equal(cell(rows, 1, 'title'), '\'=HYPERLINK("https://example.com","click")');
+  assert.equal(cell(rows, 1, 'labels'), "'-wip");
+  assert.equal(cell(rows, 2, 'title'), "''@already quoted");
+
+  await importCsv(setCell(rows, 2, 'state', 'closed'));
+
+  assert.equal((await loadIssue(1))?.title, '=HYPERLINK("https://example.com","click")');
+  assert.deepEqual((await loadIssue(1))?.labels, ['-wip']);
+  const second = await loadIssue(2);
+  assert.equal(second?.title, "'@already quoted");
+  assert.equal(second?.state, 'closed');
+});
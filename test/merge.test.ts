@@ -0,0 +1,134 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeText } from '../src/diff.js';
+import { mergeIssue, changedFields } from '../src/merge.js';
+import type { Issue } from '../src/types.js';
+
+function issue(overrides: Partial<Issue> = {}): Issue {
+  return {
+    number: 1,
+    title: 'crash on login',
+    body: 'steps:\n1. open the app\n2. click login\n\nexpected: no crash',
+    state: 'open',
+    labels: ['bug'],
+    assignees: [],
+    milestone: null,
+    created_at: '2026-01-01T00:00:00Z',
+    updated_at: '2026-01-01T00:00:00Z',
+    closed_at: null,
+    url: 'https://github.com/o/r/issues/1',
+    ...overrides,
+  };
+}
+
+test('mergeText takes hunks changed on one side', () => {
+  const base = 'a\nb\nc\nd\ne';
+  const local = 'a\nB\nc\nd\ne';
+  const remote = 'a\nb\nc\nd\nE';
+
+  assert.deepEqual(mergeText(base, local, remote), { text: 'a\nB\nc\nd\nE', conflicts: 0 });
+});
+
+test('mergeText keeps insertions and deletions from both sides', () => {
+  const base = 'one\ntwo\nthree\nfour';
+  const local = 'zero\none\ntwo\nthree\nfour';
+  const remote = 'one\ntwo\nfour';
+
+  assert.deepEqual(mergeText(base, local, remote), { text: 'zero\none\ntwo\nfour', conflicts: 0 });
+});
+
+test('mergeText accepts the same edit made on both sides', () => {
+  const base = 'a\nb\nc';
+  const edited = 'a\nx\nc';
+
+  assert.deepEqual(mergeText(base, edited, edited), { text: edited, conflicts: 0 });
+});
+
+test('mergeText marks overlapping edits as conflicts', () => {
+  const result = mergeText('a\nb\nc', 'a\nlocal\nc', 'a\nremote\nc');
+
+  assert.equal(result.conflicts, 1);
+  assert.equal(result.text, [
+    'a',
+    '<<<<<<< local', 'local',
+    '||||||| base', 'b',
+    '=======', 'remote', '>>>>>>> remote',
+    'c',
+  ].join('\n'));
+});
+
+test('mergeText handles empty bases', () => {
+  assert.deepEqual(mergeText('', 'added', ''), { text: 'added', conflicts: 0 });
+  assert.equal(mergeText('', 'local', 'remote').conflicts, 1);
+});
+
+test('mergeIssue combines edits to different fields', () => {
+  const base = issue();
+  const local = issue({ title: 'crash when logging in', labels: ['bug', 'p1'] });
+  const remote = issue({ state: 'closed', assignees: ['alice'], updated_at: '2026-02-01T00:00:00Z' });
+
+  const { merged, conflicts } = mergeIssue(base, local, remote);
+
+  assert.deepEqual(conflicts, []);
+  assert.equal(merged.title, 'crash when logging in');
+  assert.equal(merged.state, 'closed');
+  assert.deepEqual(merged.labels, ['bug', 'p1']);
+  assert.deepEqual(merged.assignees, ['alice']);
+  assert.equal(merged.updated_at, '2026-02-01T00:00:00Z');
+});
+
+test('mergeIssue merges body edits line by line', () => {
+  const base = issue();
+  const local = issue({ body: base.body.replace('1. open the app', '1. open the app on android') });
+  const remote = issue({ body: base.body.replace('expected: no crash', 'expected: the dashboard') });
+
+  const { merged, conflicts } = mergeIssue(base, local, remote);
+
+  assert.deepEqual(conflicts, []);
+  assert.equal(merged.body, 'steps:\n1. open the app on android\n2. click login\n\nexpected: the dashboard');
+});
+
+test('mergeIssue reports fields changed differently on both sides', () => {
+  const base = issue();
+  const { merged, conflicts } = mergeIssue(base, issue({ title: 'local title' }), issue({ title: 'remote title' }));
+
+  assert.deepEqual(conflicts.map(c => c.field), ['title']);
+  assert.deepEqual(conflicts[0], { field: 'title', base: base.title, local: 'local title', remote: 'remote title' });
+  // the local value is kept until the conflict is resolved
+  assert.equal(merged.title, 'local title');
+});
+
+test('mergeIssue applies label removals from either side', () => {
+  const base = issue({ labels: ['bug', 'p1', 'ui'] });
+  const local = issue({ labels: ['bug', 'ui', 'regression'] });
+  const remote = issue({ labels: ['bug', 'p1'] });
+
+  assert.deepEqual(mergeIssue(base, local, remote).merged.labels, ['bug', 'regression']);
+});
+
+test('mergeIssue treats missing remote project fields as unchanged', () => {
+  const base = issue({ project_fields: { Status: 'Todo', Points: 3 } });
+  const local = issue({ project_fields: { Status: 'In Progress', Points: 3 } });
+  const remote = issue();
+
+  const { merged, conflicts } = mergeIssue(base, local, remote);
+
+  assert.deepEqual(conflicts, []);
+  assert.deepEqual(merged.project_fields, { Status: 'In Progress', Points: 3 });
+});
+
+test('mergeIssue reports conflicting project fields', () => {
+  const base = issue({ project_fields: { Status: 'Todo' } });
+  const local = issue({ project_fields: { Status: 'In Progress' } });
+  const remote = issue({ project_fields: { Status: 'Done' } });
+
+  assert.deepEqual(mergeIssue(base, local, remote).conflicts.map(c => c.field), ['project_fields.Status']);
+});
+
+test('changedFields lists what differs', () => {
+  const from = issue({ labels: ['bug', 'ui'], project_fields: { Status: 'Todo' } });
+  const to = issue({ title: 'new', labels: ['ui', 'bug'], project_fields: { Status: 'Done' } });
+
+  // label order doesn't count as a change
+  assert.deepEqual(changedFields(from, to), ['title', 'project_fields.Status']);
+});
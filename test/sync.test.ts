@@ -0,0 +1,149 @@
+import { test, beforeEach, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { setStorageRoot, loadIssue, saveIssue, loadBase, loadSyncState } from '../src/storage.js';
+import { setProvider, type IssueProvider } from '../src/provider.js';
+import { createMemoryProvider, type MemoryData } from '../src/memory-provider.js';
+import { syncDown, syncUp, detectConflicts } from '../src/sync.js';
+import type { Issue } from '../src/types.js';
+
+const REPO = 'octo/widgets';
+const roots: string[] = [];
+let data: MemoryData;
+let memory: IssueProvider;
+
+function remoteIssue(number: number, title: string): Issue {
+  return {
+    number,
+    title,
+    body: 'steps:\n1. open the app\n2. click login',
+    state: 'open',
+    labels: ['bug'],
+    assignees: [],
+    milestone: null,
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    closed_at: null,
+    url: `https://github.com/${REPO}/issues/${number}`,
+  };
+}
+
+async function editLocally(number: number, edit: (issue: Issue) => Partial<Issue>): Promise<void> {
+  const issue = (await loadIssue(number))!;
+  await saveIssue({ ...issue, ...edit(issue) });
+}
+
+function remote(number: number): Issue {
+  return data.issues.find(i => i.number === number)!;
+}
+
+beforeEach(async () => {
+  const root = await mkdtemp(join(tmpdir(), 'issync-sync-'));
+  roots.push(root);
+  setStorageRoot(root);
+
+  data = {
+    repo: REPO,
+    issues: [remoteIssue(1, 'crash on login'), remoteIssue(2, 'update the docs')],
+    milestones: [],
+    labels: [{ id: 1, name: 'bug', color: 'd73a4a', description: null }, { id: 2, name: 'p1', color: 'b60205', description: null }],
+    comments: {},
+  };
+  memory = createMemoryProvider({ data });
+  setProvider(memory);
+
+  await syncDown();
+});
+
+after(async () => {
+  setProvider(null);
+  for (const dir of roots) {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
+
+test('up pushes local edits merged with remote edits to other fields', async () => {
+  await editLocally(1, () => ({ title: 'crash when logging in' }));
+  await memory.updateIssue(REPO, 1, { labels: ['bug', 'p1'], body: 'steps:\n1. open the app on android\n2. click login' });
+
+  assert.deepEqual(await detectConflicts(), []);
+
+  const summary = await syncUp();
+
+  assert.deepEqual(summary, { updated: 1, created: 0, comments: 0, conflicted: 0 });
+  assert.equal(remote(1).title, 'crash when logging in');
+  assert.deepEqual(remote(1).labels, ['bug', 'p1']);
+
+  const local = await loadIssue(1);
+  assert.equal(local?.title, 'crash when logging in');
+  assert.equal(local?.body, 'steps:\n1. open the app on android\n2. click login');
+  assert.deepEqual(local?.labels, ['bug', 'p1']);
+  assert.equal((await loadBase(1))?.title, 'crash when logging in');
+  assert.equal((await loadSyncState()).issues[1].github_updated_at, remote(1).updated_at);
+
+  // nothing left to push
+  assert.equal((await syncUp()).updated, 0);
+});
+
+test('up skips issues edited on both sides and conflicts lists them', async () => {
+  await editLocally(1, () => ({ title: 'local title' }));
+  await memory.updateIssue(REPO, 1, { title: 'remote title' });
+  const before = (await loadSyncState()).issues[1];
+
+  const conflicts = await detectConflicts();
+  assert.deepEqual(conflicts.map(c => [c.number, c.fields]), [[1, ['title']]]);
+
+  const summary = await syncUp();
+
+  assert.equal(summary.conflicted, 1);
+  assert.equal(summary.updated, 0);
+  assert.equal(remote(1).title, 'remote title');
+  assert.equal((await loadIssue(1))?.title, 'local title');
+  // the base stays put so the conflict is still there next time
+  assert.deepEqual((await loadSyncState()).issues[1], before);
+  assert.equal((await detectConflicts()).length, 1);
+});
+
+test('up checkpoints each pushed issue so a failed run resumes', async () => {
+  await editLocally(1, () => ({ title: 'crash when logging in' }));
+  await editLocally(2, () => ({ state: 'closed' }));
+
+  setProvider({
+    ...memory,
+    async updateIssue(repo, number, updates) {
+      if (number === 2) {
+        throw new Error('connection reset');
+      }
+      return memory.updateIssue(repo, number, updates);
+    },
+  });
+  await assert.rejects(syncUp(), /failed to push 1 issue\(s\)/);
+
+  const state = await loadSyncState();
+  assert.equal(state.issues[1].github_updated_at, remote(1).updated_at);
+  assert.equal(state.issues[2].github_updated_at, '2026-03-01T00:00:00Z');
+
+  // only the issue that failed is pushed again
+  setProvider(memory);
+  assert.equal((await syncUp()).updated, 1);
+  assert.equal(remote(2).state, 'closed');
+  assert.equal(remote(1).title, 'crash when logging in');
+});
+
+test('down only looks for deleted issues on full syncs', async () => {
+  data.issues = data.issues.filter(i => i.number !== 2);
+  data.removed = { 2: null };
+
+  // the state scan already ran once, on the first down
+  await syncDown();
+  assert.ok((await loadSyncState()).issues[2]);
+
+  const summary = await syncDown(false, true);
+
+  assert.ok(summary.changes.some(line => line.startsWith('deleted: #2')));
+  assert.equal((await loadSyncState()).issues[2], undefined);
+  assert.ok(existsSync(join(roots[roots.length - 1], 'archive', '2.md')));
+});
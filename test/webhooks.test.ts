@@ -0,0 +1,126 @@
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createHmac } from 'crypto';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'url';
+import { setStorageRoot, loadIssue, loadComments, loadLabels, loadMilestones, loadSyncState } from '../src/storage.js';
+import { setProvider } from '../src/provider.js';
+import { createMemoryProvider, type MemoryData } from '../src/memory-provider.js';
+import { syncDown } from '../src/sync.js';
+import { verifySignature, handleEvent, replayWebhooks, type WebhookDelivery } from '../src/webhooks.js';
+
+// compiled tests run from build-test/test, the fixtures stay in the source tree
+const fixtures = fileURLToPath(new URL('../../test/fixtures/webhooks/', import.meta.url));
+
+let root: string;
+
+function remote(): MemoryData {
+  const issue = (number: number, title: string) => ({
+    number,
+    title,
+    body: 'steps to reproduce',
+    state: 'open' as const,
+    labels: number === 1 ? ['bug'] : [],
+    assignees: [],
+    milestone: number === 1 ? 'v1.0' : null,
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+    closed_at: null,
+    url: `https://github.com/octo/widgets/issues/${number}`,
+  });
+  const comment = (id: number, author: string, body: string) => ({
+    id,
+    author,
+    body,
+    created_at: '2026-03-01T00:00:00Z',
+    updated_at: '2026-03-01T00:00:00Z',
+  });
+
+  return {
+    repo: 'octo/widgets',
+    issues: [issue(1, 'crash on login'), issue(2, 'update the docs')],
+    milestones: [{ number: 1, title: 'v1.0', state: 'open', description: null, due_on: null }],
+    labels: [{ id: 11, name: 'bug', color: 'd73a4a', description: null }],
+    comments: { 1: [comment(101, 'alice', 'reproduced'), comment(102, 'bob', '+1')] },
+    project: {
+      id: 'project:1',
+      number: 1,
+      owner: 'octo',
+      fields: [{
+        id: 'field:status',
+        name: 'Status',
+        dataType: 'SINGLE_SELECT',
+        options: [{ id: 'todo', name: 'Todo' }, { id: 'done', name: 'Done' }],
+      }],
+      items: { 1: { id: 'item:1', values: { Status: 'Todo' } } },
+    },
+  };
+}
+
+async function fixture(name: string): Promise<WebhookDelivery> {
+  return JSON.parse(await readFile(join(fixtures, name), 'utf-8'));
+}
+
+before(async () => {
+  root = await mkdtemp(join(tmpdir(), 'issync-webhooks-'));
+  setStorageRoot(root);
+  setProvider(createMemoryProvider({ data: remote() }));
+  await syncDown(false, false, true, true);
+});
+
+after(async () => {
+  setProvider(null);
+  await rm(root, { recursive: true, force: true });
+});
+
+test('verifySignature accepts only the sha256 hmac of the body', () => {
+  const body = '{"zen":"keep it logically awesome"}';
+  const signature = `sha256=${createHmac('sha256', 'hunter2').update(body).digest('hex')}`;
+
+  assert.equal(verifySignature('hunter2', body, signature), true);
+  assert.equal(verifySignature('hunter2', Buffer.from(body), signature), true);
+  assert.equal(verifySignature('wrong', body, signature), false);
+  assert.equal(verifySignature('hunter2', `${body} `, signature), false);
+  assert.equal(verifySignature('hunter2', body, signature.slice('sha256='.length)), false);
+  assert.equal(verifySignature('hunter2', body, undefined), false);
+});
+
+test('replaying the stored deliveries updates the local copy', async () => {
+  await replayWebhooks(fixtures);
+
+  const issue = await loadIssue(1);
+  assert.equal(issue?.title, 'crash when logging in');
+  assert.deepEqual(issue?.project_fields, { Status: 'Done' });
+
+  const state = await loadSyncState();
+  assert.equal(state.issues[1].github_updated_at, '2026-03-02T10:00:00Z');
+  assert.equal(state.issues[1].node_id, 'I_1');
+  assert.equal(state.issues[1].project_item_id, 'item:1');
+
+  // the deleted issue is archived and no longer tracked
+  assert.equal(state.issues[2], undefined);
+  assert.equal(await loadIssue(2), null);
+  assert.ok(existsSync(join(root, 'archive', '2.md')));
+
+  assert.deepEqual((await loadComments(1))?.map(c => [c.id, c.body]), [[101, 'reproduced on android too']]);
+  assert.deepEqual((await loadLabels())?.map(l => l.name), ['bug', 'ui']);
+  assert.equal((await loadMilestones())?.find(m => m.title === 'v1.0')?.state, 'closed');
+});
+
+test('handleEvent skips deliveries older than the local copy', async () => {
+  assert.deepEqual(await handleEvent(await fixture('02-issues-edited-stale.json')), [
+    'stale: #1 edited event is older than the local copy (skipping)',
+  ]);
+  assert.equal((await loadIssue(1))?.title, 'crash when logging in');
+});
+
+test('handleEvent ignores other repos and untracked events', async () => {
+  assert.deepEqual(await handleEvent(await fixture('09-issues-other-repo.json')), []);
+  assert.equal(await loadIssue(7), null);
+
+  assert.deepEqual(await handleEvent({ event: 'push', payload: { repository: { full_name: 'octo/widgets' } } }), []);
+  assert.deepEqual(await handleEvent({ event: 'ping', payload: { zen: 'design for failure' } }), ['ping: design for failure']);
+});